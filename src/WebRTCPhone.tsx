@@ -13,6 +13,12 @@ import {
     VolumeUp as VolumeUpIcon,
     Chat as ChatIcon,
     Send as SendIcon,
+    Mic as MicIcon,
+    MicOff as MicOffIcon,
+    Pause as PauseIcon,
+    PlayArrow as PlayArrowIcon,
+    PhoneCallback as PhoneCallbackIcon,
+    Headset as HeadsetIcon,
 } from '@mui/icons-material'
 import {
     Box,
@@ -20,6 +26,7 @@ import {
     Dialog,
     DialogTitle,
     DialogContent,
+    DialogActions,
     IconButton,
     TextField,
     Button,
@@ -30,56 +37,69 @@ import {
     Collapse,
     Badge,
     Tooltip,
+    MenuItem,
 } from '@mui/material'
 
-import type { ActionHandler, useCallChannel } from './channel/useCallChannel'
+import { isActionListed } from './actions/actionPolicy'
+import { formatActionCatalog } from './actions/actionRegistry'
+import { defaultActionRegistry } from './actions/defaultRegistry'
+import { type ActionHandler, useCallChannel } from './channel/useCallChannel'
 import {
-    useSendMessage,
     useMakeCall,
-    useCleanupCall,
-    useCleanupJanus,
     useEnableAudio,
-    useInitializeForCall,
-    useInitJanus,
     useSendDtmf,
     useSelectionTracking,
+    useMute,
+    useHoldCall,
+    useIncomingCall,
+    useCallStats,
+    useMediaRecovery,
+    useAudioDevices,
+    useTelphiClient,
+    useAsyncActions,
 } from './hooks'
+import { useActionConfirmation } from './hooks/useActionConfirmation'
 import { useBrowserAction } from './hooks/useBrowserAction'
 import { useWebRTCPhoneStore } from './stores/webrtcPhoneStore'
 import { webrtcRefs } from './stores/webrtcRefsStore'
-import { animationStyles, logDebug, saveCallState, loadCallState, clearCallState } from './utils'
+import type { WebRTCPhoneProps } from './types'
+import { animationStyles, logDebug, startRingtone } from './utils'
+import { createContextUpdateMessage } from './utils/channel'
 
-interface WebRTCPhoneProps {
-    /** Optional callback for SPA navigation. If not provided, falls back to History API. */
-    onNavigate?: (path: string) => void
-}
-
-export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
+export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({
+    onNavigate,
+    actionRegistry = defaultActionRegistry,
+    onUnknownAction,
+    announceActions = true,
+    onConfirmAction,
+    ...eventCallbacks
+}) => {
     // Get config and pending call from SDK store
-    const { apiDomain, preferPcma: _preferPcma = true } = useWebRTCPhoneStore(
-        (state) => state.webrtcConfig,
-    )
+    const {
+        apiDomain,
+        preferPcma: _preferPcma = true,
+        autoConnect = false,
+        channelValidation,
+        channelReconnect,
+        actionPolicy,
+    } = useWebRTCPhoneStore((state) => state.webrtcConfig)
     const pendingCall = useWebRTCPhoneStore((state) => state.pendingCall)
     const clearPendingCall = useWebRTCPhoneStore((state) => state.clearPendingCall)
+    const setAsyncActions = useWebRTCPhoneStore((state) => state.setAsyncActions)
+    const { activity: asyncActivity } = useAsyncActions()
 
     // Local UI state
     const [open, setOpen] = useState(false)
     const [dialpadOpen, setDialpadOpen] = useState(false)
     const [chatOpen, setChatOpen] = useState(false)
+    const [devicesOpen, setDevicesOpen] = useState(false)
 
     // Use WebRTC phone store for state management
     const audioBlocked = useWebRTCPhoneStore((state) => state.ui.audioBlocked)
     const connection = useWebRTCPhoneStore((state) => state.connection)
     const callData = useWebRTCPhoneStore((state) => state.callData)
 
-    const setCalling = useWebRTCPhoneStore((state) => state.setCalling)
-    const setInCall = useWebRTCPhoneStore((state) => state.setInCall)
-    const setStatus = useWebRTCPhoneStore((state) => state.setStatus)
     const setInitialized = useWebRTCPhoneStore((state) => state.setInitialized)
-    const setReconnecting = useWebRTCPhoneStore((state) => state.setReconnecting)
-    const setAppEndpointName = useWebRTCPhoneStore((state) => state.setAppEndpointName)
-    const setCurrentCallId = useWebRTCPhoneStore((state) => state.setCurrentCallId)
-    const setCurrentWsToken = useWebRTCPhoneStore((state) => state.setCurrentWsToken)
     const clearDtmfDigits = useWebRTCPhoneStore((state) => state.clearDtmfDigits)
     const getDerivedUrlsFor = useWebRTCPhoneStore((state) => state.getDerivedUrlsFor)
 
@@ -92,145 +112,128 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
     } = useMemo(() => getDerivedUrlsFor(apiDomain), [apiDomain, getDerivedUrlsFor])
 
     // Destructure commonly used values for convenience
-    const { connected, registered, calling, inCall, initialized, reconnecting, status } = connection
-    const { endpointId, appName, currentCallId, currentWsToken, telproDomain, dtmfDigits } =
-        callData
-
-    const { remoteAudioRef, localAudioRef, initializingRef, pendingReconnectRef } = webrtcRefs
-    const sendMessage = useSendMessage()
-    const cleanupCall = useCleanupCall()
-    const initJanus = useInitJanus()
-    const cleanupJanus = useCleanupJanus()
+    const {
+        connected,
+        registered,
+        calling,
+        inCall,
+        initialized,
+        reconnecting,
+        signalingState,
+        status,
+    } = connection
+    const {
+        endpointId,
+        appName,
+        phoneNumber,
+        currentCallId,
+        currentWsToken,
+        telproDomain,
+        dtmfDigits,
+    } = callData
+
+    const { remoteAudioRef, localAudioRef, initializingRef } = webrtcRefs
+    const client = useTelphiClient()
     const enableAudio = useEnableAudio()
-    const initializeForCall = useInitializeForCall()
-    const restoreFromPersistedState = useWebRTCPhoneStore(
-        (state) => state.restoreFromPersistedState,
-    )
     const handleCall = useMakeCall()
     const sendDtmf = useSendDtmf()
+    const { muted, toggleMute } = useMute()
+    const { held, heldBy, toggleHold } = useHoldCall()
+    const { incomingCall, acceptCall, declineCall } = useIncomingCall()
+    const callStats = useCallStats()
+    const { mediaRecovering } = useMediaRecovery()
+    const {
+        inputs: inputDevices,
+        outputs: outputDevices,
+        selectedInputId,
+        selectedOutputId,
+        selectInputDevice,
+        selectOutputDevice,
+    } = useAudioDevices()
 
-    // Refs for unstable hook return values (not wrapped in useCallback)
-    // These prevent useEffect dependency changes on every render
-    const initJanusRef = useRef(initJanus)
-    const cleanupJanusRef = useRef(cleanupJanus)
-    const initializeForCallRef = useRef(initializeForCall)
     // Tracks whether we've already auto-enabled text chat for the current call session
     // Prevents the auto-enable effect from overriding an intentional user disable
     const hasAutoEnabledTextChatRef = useRef(false)
-    useEffect(() => {
-        initJanusRef.current = initJanus
-    }, [initJanus])
-    useEffect(() => {
-        cleanupJanusRef.current = cleanupJanus
-    }, [cleanupJanus])
-    useEffect(() => {
-        initializeForCallRef.current = initializeForCall
-    }, [initializeForCall])
 
     // Check for stored call state on mount and auto-reconnect (in background, no dialog)
-    // Uses refs for unstable functions to ensure this only runs on mount
     useEffect(() => {
-        const storedState = restoreFromPersistedState()
-        if (storedState) {
-            pendingReconnectRef.current = storedState
-            if (storedState.telproDomain) {
-                initJanusRef.current(storedState.telproDomain)
-            }
-        }
-    }, [restoreFromPersistedState, pendingReconnectRef])
+        client.resumePersistedCall()
+    }, [client])
 
-    // Initialize Janus when dialog is first opened, keep running in background
-    // Only if we have telproDomain (either from config or from call token)
+    // Initialize Janus when dialog is first opened (or on mount with autoConnect), keep
+    // running in background. Only if we have telproDomain (either from config or from call token)
     useEffect(() => {
-        if (open && !initialized && !initializingRef.current && telproDomain) {
+        if ((open || autoConnect) && !initialized && !initializingRef.current && telproDomain) {
             setInitialized(true)
-            initJanusRef.current(telproDomain)
+            client.connect(telproDomain)
         }
-    }, [open, telproDomain, initialized, initializingRef, setInitialized])
+    }, [client, open, autoConnect, telproDomain, initialized, initializingRef, setInitialized])
 
-    // Periodically update stored timestamp while in call (every 5s)
-    // This ensures TTL check works even if beforeunload doesn't fire
+    // Ring and bring up the dialog while an inbound call is waiting to be answered
     useEffect(() => {
-        if (!inCall && !calling) return
+        if (!incomingCall) return
+        setOpen(true)
+        return startRingtone()
+    }, [incomingCall])
 
-        const updateTimestamp = () => {
-            const currentState = loadCallState()
-            if (currentState) {
-                saveCallState({ ...currentState, startedAt: Date.now() })
-                logDebug('Updated call state timestamp')
-            }
-        }
-
-        // Update immediately and then every 5 seconds
-        updateTimestamp()
-        const interval = setInterval(updateTimestamp, 5000)
+    // Latest on<Event> props, so the subscriptions below are made only once
+    const eventCallbacksRef = useRef(eventCallbacks)
+    useEffect(() => {
+        eventCallbacksRef.current = eventCallbacks
+    })
 
-        return () => clearInterval(interval)
-    }, [inCall, calling])
+    // Forward client events to the on<Event> props
+    useEffect(() => {
+        const unsubscribers = [
+            client.on('registered', (event) => eventCallbacksRef.current.onRegistered?.(event)),
+            client.on('callStarted', (event) => eventCallbacksRef.current.onCallStarted?.(event)),
+            client.on('callAnswered', (event) => eventCallbacksRef.current.onCallAnswered?.(event)),
+            client.on('callEnded', (event) => {
+                setChatOpen(false) // Close chat panel, including on remote hangups
+                eventCallbacksRef.current.onCallEnded?.(event)
+            }),
+            client.on('error', (event) => eventCallbacksRef.current.onError?.(event)),
+        ]
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+    }, [client])
 
     // Cleanup only on component unmount
     useEffect(() => {
-        return () => cleanupJanusRef.current()
-    }, [])
+        return () => client.cleanupJanus()
+    }, [client])
 
     useEffect(() => {
         if (!pendingCall) return
 
         const {
             endpointId: pendingEndpointId,
-            phoneNumber,
-            endpointName: pendingEndpointName,
+            phoneNumber: pendingPhoneNumber,
             appName: pendingAppName,
         } = pendingCall
 
-        logDebug('Pending call received:', pendingEndpointId, phoneNumber, 'app:', pendingAppName)
+        logDebug(
+            'Pending call received:',
+            pendingEndpointId,
+            pendingPhoneNumber,
+            'app:',
+            pendingAppName,
+        )
 
-        initializeForCallRef.current(pendingCall)
+        // Validates the number, stores the call details and connects
+        client.prepareCall(pendingCall)
 
         // Batch all state updates as a non-urgent transition to avoid cascading renders
         startTransition(() => {
-            setAppEndpointName(pendingEndpointId, pendingEndpointName || '', pendingAppName || '')
             setOpen(true)
             clearPendingCall()
         })
-    }, [pendingCall, clearPendingCall, setAppEndpointName, setOpen])
+    }, [client, pendingCall, clearPendingCall, setOpen])
 
     // Hangup
-    const handleHangup = useCallback(async () => {
-        try {
-            await sendMessage({ janus: 'message', body: { request: 'hangup' } })
-        } catch {
-            // Ignore hangup errors
-        }
-        setInCall(false)
-        setCalling(false)
-        setCurrentCallId(null)
-        setCurrentWsToken(null)
+    const handleHangup = useCallback(() => {
         setChatOpen(false) // Close chat panel
-        clearDtmfDigits() // Clear DTMF digits
-        setStatus(registered ? 'Connected' : 'Disconnected')
-        cleanupCall()
-        clearCallState() // Clear stored state on explicit hangup
-        // Keep endpointId and endpointName for "Call Again" functionality
-    }, [
-        sendMessage,
-        setInCall,
-        setCalling,
-        setCurrentCallId,
-        setCurrentWsToken,
-        clearDtmfDigits,
-        setStatus,
-        registered,
-        cleanupCall,
-    ])
-
-    // Register handleHangup so hooks (e.g. useHandleMessage) can trigger it for remote hangups
-    useEffect(() => {
-        webrtcRefs.onHangupRef.current = handleHangup
-        return () => {
-            webrtcRefs.onHangupRef.current = null
-        }
-    }, [handleHangup])
+        client.hangup()
+    }, [client])
 
     // Minimize - just close the dialog, keep call running
     const handleMinimize = () => {
@@ -239,9 +242,7 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
 
     // Full disconnect - hangup and cleanup
     const handleDisconnect = async () => {
-        if (inCall || calling) await handleHangup()
-        cleanupJanus()
-        setInitialized(false)
+        await client.disconnect()
         setOpen(false)
     }
 
@@ -249,11 +250,31 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
     const [chatInput, setChatInput] = useState('')
 
     // Action handler for browser actions from ARI (AI tool calls)
-    const handleBrowserAction: ActionHandler = useBrowserAction(onNavigate)
+    // Actions the policy wants confirmed are shown in a dialog unless the app asks itself
+    const {
+        pending: pendingConfirmation,
+        requestConfirmation,
+        respond: respondToConfirmation,
+        declineAll: declineConfirmations,
+    } = useActionConfirmation()
+    const browserAction: ActionHandler = useBrowserAction({
+        onNavigate,
+        registry: actionRegistry,
+        onUnknownAction,
+        policy: actionPolicy,
+        confirmAction: onConfirmAction ?? requestConfirmation,
+    })
+    const handleBrowserAction: ActionHandler = useCallback(
+        (action, signal, timeout) => {
+            eventCallbacksRef.current.onActionReceived?.(action)
+            return browserAction(action, signal, timeout)
+        },
+        [browserAction],
+    )
 
     // Call channel hook for bidirectional communication with ARI
     const {
-        connectionState: _channelState,
+        connectionState: channelState,
         connected: channelConnected,
         textChatEnabled,
         messages: channelMessages,
@@ -261,6 +282,8 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
         sendContextUpdate,
         sendTextChat,
         sendReadAloud,
+        sendStatus,
+        sendMessage: sendChannelMessage,
         enableTextChat,
         disableTextChat,
         clearMessages: _clearChannelMessages,
@@ -268,9 +291,14 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
         callId: currentCallId,
         wsToken: currentWsToken,
         wsUrl: telapiWsUrl,
+        validation: channelValidation,
+        reconnect: channelReconnect,
+        onTokenExpired: client.refreshWsToken,
         onAction: handleBrowserAction,
+        onAsyncActionsChange: setAsyncActions,
         onChat: (chat, _message) => {
             logDebug('Chat received:', chat.role, chat.content)
+            eventCallbacksRef.current.onChatMessage?.(chat)
         },
         onStatus: (status) => {
             logDebug('Channel status:', status.state)
@@ -284,6 +312,7 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
         onConnectionChange: (state) => {
             logDebug('Channel connection state:', state)
         },
+        onError: (error) => eventCallbacksRef.current.onError?.({ error, context: 'channel' }),
     })
 
     // Toggle text chat mode
@@ -329,6 +358,56 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
         }
     }, [inCall, channelConnected, enableTextChat])
 
+    // Report hold/resume to ARI so the AI knows the other side is on hold
+    // Leaving `held` because the call ended is not a resume, so only report while in call
+    const wasHeldRef = useRef(false)
+    useEffect(() => {
+        if (held === wasHeldRef.current) return
+        wasHeldRef.current = held
+        if (held) {
+            sendStatus('call_hold', { heldBy })
+        } else if (inCall) {
+            sendStatus('call_resumed')
+        }
+    }, [held, heldBy, inCall, sendStatus])
+
+    // Tell the AI which browser actions this page supports: once per call when the channel
+    // connects, and again whenever actions are registered or removed during the call.
+    // Sent as a raw context update so it stays out of the chat transcript
+    const announcedCallIdRef = useRef<string | null>(null)
+    useEffect(() => {
+        if (!announceActions || !channelConnected || !currentCallId) return
+        const announce = () => {
+            const catalog = actionRegistry
+                .catalog()
+                .filter(({ name }) => !actionPolicy || isActionListed(actionPolicy, name))
+            logDebug('Announcing action catalog:', catalog.length, 'actions')
+            sendChannelMessage(
+                createContextUpdateMessage(currentCallId, formatActionCatalog(catalog), {
+                    type: 'action_catalog',
+                    actions: catalog,
+                }),
+            )
+        }
+        if (announcedCallIdRef.current !== currentCallId) {
+            announcedCallIdRef.current = currentCallId
+            announce()
+        }
+        return actionRegistry.on('changed', announce)
+    }, [
+        announceActions,
+        channelConnected,
+        currentCallId,
+        actionRegistry,
+        actionPolicy,
+        sendChannelMessage,
+    ])
+
+    // Actions still waiting for consent when the call ends are declined
+    useEffect(() => {
+        if (!currentCallId) declineConfirmations()
+    }, [currentCallId, declineConfirmations])
+
     // Track selected text and provide read-aloud handler (state lives in the store)
     const { selectedText, handleReadAloudSelected, showReadAloudFab } = useSelectionTracking({
         sendReadAloud,
@@ -439,16 +518,22 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                                     label={
                                         reconnecting
                                             ? 'Reconnecting...'
-                                            : inCall
-                                              ? appName
-                                                  ? `In Call: ${appName}`
-                                                  : 'In Call'
-                                              : appName
-                                                ? `Calling ${appName}...`
-                                                : 'Calling...'
+                                            : incomingCall
+                                              ? 'Incoming call'
+                                              : held
+                                                ? heldBy === 'remote'
+                                                    ? 'Held by remote'
+                                                    : 'On Hold'
+                                                : inCall
+                                                  ? appName
+                                                      ? `In Call: ${appName}`
+                                                      : 'In Call'
+                                                  : appName
+                                                    ? `Calling ${appName}...`
+                                                    : 'Calling...'
                                     }
                                     size="small"
-                                    color={reconnecting ? 'warning' : 'error'}
+                                    color={reconnecting || held ? 'warning' : 'error'}
                                     sx={{ ml: 1, verticalAlign: 'middle' }}
                                 />
                             )}
@@ -471,15 +556,90 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                                     color={connected ? 'success' : 'default'}
                                 />
                             </Box>
+                            {phoneNumber && (
+                                <Box
+                                    display="flex"
+                                    justifyContent="space-between"
+                                    alignItems="center"
+                                    mt={1}
+                                >
+                                    <Typography variant="body2" fontWeight="medium">
+                                        Number:
+                                    </Typography>
+                                    <Typography variant="body2" fontFamily="monospace">
+                                        {phoneNumber}
+                                    </Typography>
+                                </Box>
+                            )}
+                            {inCall && callStats?.mos != null && (
+                                <Box
+                                    display="flex"
+                                    justifyContent="space-between"
+                                    alignItems="center"
+                                    mt={1}
+                                >
+                                    <Typography variant="body2" fontWeight="medium">
+                                        Quality:
+                                    </Typography>
+                                    <Tooltip
+                                        title={`RTT ${callStats.rttMs} ms · jitter ${callStats.jitterMs} ms · loss ${callStats.packetLossPct ?? 0}% · ${callStats.codec ?? 'unknown codec'} · ${callStats.candidateType ?? 'unknown'} path`}
+                                    >
+                                        <Chip
+                                            label={`${callStats.quality} (MOS ${callStats.mos.toFixed(1)})`}
+                                            size="small"
+                                            color={
+                                                callStats.quality === 'poor'
+                                                    ? 'error'
+                                                    : callStats.quality === 'fair'
+                                                      ? 'warning'
+                                                      : 'success'
+                                            }
+                                            variant="outlined"
+                                        />
+                                    </Tooltip>
+                                </Box>
+                            )}
                         </Paper>
 
-                        {(!connected || reconnecting) && (
+                        {/* Ringing inbound call */}
+                        {incomingCall && (
+                            <Paper sx={{ p: 1.5, bgcolor: 'info.light' }}>
+                                <Box display="flex" alignItems="center" gap={1}>
+                                    <PhoneCallbackIcon color="info" />
+                                    <Box sx={{ minWidth: 0 }}>
+                                        <Typography variant="body2" fontWeight="medium" noWrap>
+                                            {incomingCall.callerName || incomingCall.callerUri}
+                                        </Typography>
+                                        {incomingCall.callerName && (
+                                            <Typography
+                                                variant="caption"
+                                                color="text.secondary"
+                                                fontFamily="monospace"
+                                                noWrap
+                                                component="div"
+                                            >
+                                                {incomingCall.callerUri}
+                                            </Typography>
+                                        )}
+                                    </Box>
+                                </Box>
+                            </Paper>
+                        )}
+
+                        {(!connected ||
+                            reconnecting ||
+                            mediaRecovering ||
+                            signalingState === 'reconnecting') && (
                             <Box display="flex" alignItems="center" gap={1}>
                                 <CircularProgress size={16} />
                                 <Typography variant="body2" color="text.secondary">
-                                    {reconnecting
-                                        ? 'Reconnecting to existing call...'
-                                        : 'Connecting...'}
+                                    {mediaRecovering
+                                        ? 'Network changed, recovering audio...'
+                                        : signalingState === 'reconnecting'
+                                          ? 'Reconnecting to server...'
+                                          : reconnecting
+                                            ? 'Reconnecting to existing call...'
+                                            : 'Connecting...'}
                                 </Typography>
                             </Box>
                         )}
@@ -510,6 +670,68 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                             </Paper>
                         )}
 
+                        {/* Audio devices Toggle */}
+                        <Button
+                            variant="text"
+                            size="small"
+                            onClick={() => setDevicesOpen(!devicesOpen)}
+                            startIcon={<HeadsetIcon />}
+                            endIcon={devicesOpen ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                            sx={{ alignSelf: 'flex-start' }}
+                        >
+                            Audio Devices
+                        </Button>
+
+                        {/* Collapsible microphone / speaker selection */}
+                        <Collapse in={devicesOpen}>
+                            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                                <TextField
+                                    select
+                                    size="small"
+                                    label="Microphone"
+                                    value={
+                                        inputDevices.some((d) => d.deviceId === selectedInputId)
+                                            ? selectedInputId
+                                            : ''
+                                    }
+                                    onChange={(e) => selectInputDevice(e.target.value || null)}
+                                >
+                                    <MenuItem value="">System default</MenuItem>
+                                    {inputDevices
+                                        .filter((d) => d.deviceId && d.deviceId !== 'default')
+                                        .map((d, i) => (
+                                            <MenuItem key={d.deviceId} value={d.deviceId}>
+                                                {d.label || `Microphone ${i + 1}`}
+                                            </MenuItem>
+                                        ))}
+                                </TextField>
+                                {outputDevices.length > 0 && (
+                                    <TextField
+                                        select
+                                        size="small"
+                                        label="Speaker"
+                                        value={
+                                            outputDevices.some(
+                                                (d) => d.deviceId === selectedOutputId,
+                                            )
+                                                ? selectedOutputId
+                                                : ''
+                                        }
+                                        onChange={(e) => selectOutputDevice(e.target.value || null)}
+                                    >
+                                        <MenuItem value="">System default</MenuItem>
+                                        {outputDevices
+                                            .filter((d) => d.deviceId && d.deviceId !== 'default')
+                                            .map((d, i) => (
+                                                <MenuItem key={d.deviceId} value={d.deviceId}>
+                                                    {d.label || `Speaker ${i + 1}`}
+                                                </MenuItem>
+                                            ))}
+                                    </TextField>
+                                )}
+                            </Box>
+                        </Collapse>
+
                         {/* Dialpad Toggle */}
                         <Button
                             variant="text"
@@ -613,22 +835,37 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                                     variant="outlined"
                                     color="warning"
                                     startIcon={<CircularProgress size={16} color="warning" />}
-                                    onClick={() => {
-                                        pendingReconnectRef.current = null
-                                        setReconnecting(false)
-                                        clearCallState()
-                                        cleanupCall()
-                                        setStatus(registered ? 'Connected' : 'Disconnected')
-                                    }}
+                                    onClick={client.cancelReconnect}
                                     fullWidth
                                 >
                                     Cancel Reconnect
                                 </Button>
+                            ) : incomingCall ? (
+                                <>
+                                    <Button
+                                        variant="outlined"
+                                        color="error"
+                                        startIcon={<CallEndIcon />}
+                                        onClick={() => declineCall()}
+                                        fullWidth
+                                    >
+                                        Decline
+                                    </Button>
+                                    <Button
+                                        variant="contained"
+                                        color="success"
+                                        startIcon={<PhoneIcon />}
+                                        onClick={acceptCall}
+                                        fullWidth
+                                    >
+                                        Accept
+                                    </Button>
+                                </>
                             ) : !inCall && !calling ? (
                                 <Button
                                     variant="contained"
                                     startIcon={<PhoneIcon />}
-                                    onClick={handleCall}
+                                    onClick={() => handleCall()}
                                     disabled={!registered || !endpointId}
                                     fullWidth
                                 >
@@ -648,18 +885,55 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                                     Calling {appName || 'endpoint'}...
                                 </Button>
                             ) : (
-                                <Button
-                                    variant="contained"
-                                    color="error"
-                                    startIcon={<CallEndIcon />}
-                                    onClick={handleHangup}
-                                    fullWidth
-                                >
-                                    Hang Up
-                                </Button>
+                                <>
+                                    <Tooltip title={held ? 'Resume call' : 'Put call on hold'}>
+                                        <span>
+                                            <IconButton
+                                                color={held ? 'warning' : 'default'}
+                                                onClick={toggleHold}
+                                                disabled={heldBy === 'remote'}
+                                                aria-label={held ? 'resume' : 'hold'}
+                                                aria-pressed={held}
+                                            >
+                                                {held ? <PlayArrowIcon /> : <PauseIcon />}
+                                            </IconButton>
+                                        </span>
+                                    </Tooltip>
+                                    <Tooltip
+                                        title={muted ? 'Unmute microphone' : 'Mute microphone'}
+                                    >
+                                        <IconButton
+                                            color={muted ? 'warning' : 'default'}
+                                            onClick={toggleMute}
+                                            aria-label={muted ? 'unmute' : 'mute'}
+                                            aria-pressed={muted}
+                                        >
+                                            {muted ? <MicOffIcon /> : <MicIcon />}
+                                        </IconButton>
+                                    </Tooltip>
+                                    <Button
+                                        variant="contained"
+                                        color="error"
+                                        startIcon={<CallEndIcon />}
+                                        onClick={handleHangup}
+                                        fullWidth
+                                    >
+                                        Hang Up
+                                    </Button>
+                                </>
                             )}
                         </Box>
 
+                        {/* Async action in progress, e.g. "Assistant is filling your form…" */}
+                        {hasActiveCall && asyncActivity && (
+                            <Box display="flex" alignItems="center" gap={1}>
+                                <CircularProgress size={14} />
+                                <Typography variant="caption" color="text.secondary">
+                                    {asyncActivity}
+                                </Typography>
+                            </Box>
+                        )}
+
                         {/* Chat toggle (only when in call and channel available) */}
                         {hasActiveCall && currentCallId && (
                             <Button
@@ -668,7 +942,13 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                                 onClick={() => setChatOpen(!chatOpen)}
                                 startIcon={
                                     <Badge
-                                        color={channelConnected ? 'success' : 'default'}
+                                        color={
+                                            channelState === 'stale'
+                                                ? 'warning'
+                                                : channelConnected
+                                                  ? 'success'
+                                                  : 'default'
+                                        }
                                         variant="dot"
                                         invisible={!currentWsToken}
                                     >
@@ -681,9 +961,9 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                                 {chatOpen ? 'Hide Chat' : 'Show Chat'}
                                 {channelConnected && (
                                     <Chip
-                                        label="Connected"
+                                        label={channelState === 'stale' ? 'Unstable' : 'Connected'}
                                         size="small"
-                                        color="success"
+                                        color={channelState === 'stale' ? 'warning' : 'success'}
                                         sx={{ ml: 1, height: 20 }}
                                     />
                                 )}
@@ -842,6 +1122,29 @@ export const WebRTCPhone: React.FC<WebRTCPhoneProps> = ({ onNavigate }) => {
                 </DialogContent>
             </Dialog>
 
+            {/* Consent for browser actions the policy wants confirmed */}
+            <Dialog
+                open={pendingConfirmation !== null}
+                onClose={() => respondToConfirmation(false)}
+                maxWidth="xs"
+                fullWidth
+            >
+                <DialogTitle>Allow this action?</DialogTitle>
+                <DialogContent>
+                    <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+                        {pendingConfirmation?.message}
+                    </Typography>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => respondToConfirmation(false)} color="inherit">
+                        Deny
+                    </Button>
+                    <Button onClick={() => respondToConfirmation(true)} variant="contained">
+                        Allow
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
             {/* Audio elements outside dialog so they persist when minimized */}
             <audio
                 ref={remoteAudioRef}
@@ -0,0 +1,183 @@
+/**
+ * Action Policy
+ *
+ * Decides whether an action requested by the AI may run, before the registry executes
+ * it: allow/deny lists, the origins navigation may go to, the storage keys the page
+ * exposes, and which actions the user has to confirm first.
+ */
+
+import type { ActionHandler, ActionResult, ActionTimeoutControl } from '../channel/useCallChannel'
+import { StandardActions, type ActionPayload } from '../channelTypes'
+
+export interface ActionPolicy {
+    /** Only these actions may run. Default: every registered action */
+    allow?: string[]
+    /** These actions never run, even if listed in `allow` */
+    deny?: string[]
+    /**
+     * Origins `navigate` and `navigate_current` may go to, e.g. `https://help.example.com`.
+     * The page's own origin is always allowed. Default: any origin
+     */
+    allowedOrigins?: string[]
+    /** Key prefixes `get_storage` and `set_storage` may use. Default: any key */
+    storageKeyPrefixes?: string[]
+    /** Actions the user must confirm before they run, or `true` for all of them */
+    confirm?: boolean | string[]
+}
+
+/**
+ * Outcome of checking an action against a policy
+ */
+export type ActionPolicyDecision =
+    { allowed: true; confirm: boolean } | { allowed: false; reason: string }
+
+/**
+ * An action waiting for the user's consent
+ */
+export interface ActionConfirmationRequest {
+    action: ActionPayload
+    /** What the assistant wants to do, e.g. `The assistant wants to open https://…` */
+    message: string
+    /** Aborts when the action times out or is cancelled; the prompt should close */
+    signal?: AbortSignal
+}
+
+/** Asks the user to confirm an action; resolves to true if they allow it */
+export type ActionConfirmHandler = (request: ActionConfirmationRequest) => Promise<boolean>
+
+const NAVIGATION_ACTIONS: string[] = [StandardActions.NAVIGATE, 'navigate_current']
+const STORAGE_ACTIONS: string[] = [StandardActions.GET_STORAGE, StandardActions.SET_STORAGE]
+
+const text = (value: unknown): string => (typeof value === 'string' ? value : '')
+
+// Origin of a URL relative to the page, or null if it does not parse
+const originOf = (url: string): string | null => {
+    try {
+        return new URL(url, window.location.href).origin
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Whether the allow/deny lists let an action run (parameters are not checked). Use it to
+ * leave forbidden actions out of the catalog sent to the AI.
+ */
+export const isActionListed = (policy: ActionPolicy, name: string): boolean =>
+    !policy.deny?.includes(name) && (!policy.allow || policy.allow.includes(name))
+
+/**
+ * Check an action against a policy
+ */
+export const evaluateActionPolicy = (
+    policy: ActionPolicy,
+    action: ActionPayload,
+): ActionPolicyDecision => {
+    const { name, parameters } = action
+    if (!isActionListed(policy, name)) {
+        return { allowed: false, reason: `${name} is not permitted on this page` }
+    }
+
+    if (policy.allowedOrigins && NAVIGATION_ACTIONS.includes(name)) {
+        const origin = originOf(text(parameters.url))
+        const allowed = [window.location.origin, ...policy.allowedOrigins.map(originOf)]
+        if (!origin || !allowed.includes(origin)) {
+            return { allowed: false, reason: `navigation to ${origin ?? 'this URL'} is blocked` }
+        }
+    }
+
+    if (policy.storageKeyPrefixes && STORAGE_ACTIONS.includes(name)) {
+        const key = text(parameters.key)
+        if (!policy.storageKeyPrefixes.some((prefix) => key.startsWith(prefix))) {
+            return { allowed: false, reason: `storage key "${key}" is not accessible` }
+        }
+    }
+
+    const confirm = Array.isArray(policy.confirm) ? policy.confirm.includes(name) : !!policy.confirm
+    return { allowed: true, confirm }
+}
+
+/**
+ * Describe an action for the confirmation prompt
+ */
+export const describeAction = ({ name, parameters, description }: ActionPayload): string => {
+    const url = text(parameters.url)
+    const key = text(parameters.key)
+    switch (name) {
+        case StandardActions.NAVIGATE:
+            return `The assistant wants to open ${url} in a new tab`
+        case 'navigate_current':
+            return `The assistant wants to go to ${url}`
+        case StandardActions.GET_STORAGE:
+            return `The assistant wants to read "${key}" from browser storage`
+        case StandardActions.SET_STORAGE:
+            return `The assistant wants to save "${key}" in browser storage`
+        case StandardActions.COPY_TO_CLIPBOARD:
+            return 'The assistant wants to copy text to your clipboard'
+        case StandardActions.DOWNLOAD_FILE:
+            return `The assistant wants to download ${text(parameters.filename) || url || 'a file'}`
+        default:
+            return description
+                ? `The assistant wants to: ${description}`
+                : `The assistant wants to run "${name}"`
+    }
+}
+
+// Add the confirmation outcome to the data of a result
+const withConfirmation = (result: ActionResult): ActionResult => {
+    if ('async' in result) return result
+    const { data } = result
+    const isObject = typeof data === 'object' && data !== null && !Array.isArray(data)
+    return {
+        ...result,
+        data: isObject
+            ? { ...data, confirmation: 'approved' }
+            : data === undefined
+              ? { confirmation: 'approved' }
+              : { value: data, confirmation: 'approved' },
+    }
+}
+
+// Ask through the browser's native confirm dialog
+const nativeConfirm: ActionConfirmHandler = async ({ message }) => confirm(message)
+
+/**
+ * Run an action through a policy: denied actions fail without running, actions that need
+ * consent run only once the user allows them. The outcome is reported in the result
+ * (`data.policy: 'denied'`, `data.confirmation: 'approved' | 'declined'`). The action's
+ * timeout is paused while the user decides.
+ */
+export const runWithPolicy = async (
+    action: ActionPayload,
+    run: ActionHandler,
+    policy: ActionPolicy,
+    confirmAction: ActionConfirmHandler = nativeConfirm,
+    signal?: AbortSignal,
+    timeout?: ActionTimeoutControl,
+): Promise<ActionResult> => {
+    const decision = evaluateActionPolicy(policy, action)
+    if (!decision.allowed) {
+        return {
+            success: false,
+            error: `Action blocked: ${decision.reason}`,
+            data: { policy: 'denied' },
+        }
+    }
+    if (!decision.confirm) return run(action)
+
+    const resume = timeout?.pause()
+    let approved: boolean
+    try {
+        approved = await confirmAction({ action, message: describeAction(action), signal })
+    } finally {
+        resume?.()
+    }
+    if (!approved || signal?.aborted) {
+        return {
+            success: false,
+            error: 'The user declined the action',
+            data: { confirmation: 'declined' },
+        }
+    }
+    return withConfirmation(await run(action))
+}
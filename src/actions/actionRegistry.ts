@@ -0,0 +1,157 @@
+/**
+ * Action Registry
+ *
+ * Browser actions the AI can call during a call (`action` messages on the call
+ * channel). Each action has a zod schema for its parameters, a handler and a
+ * description. Parameters are validated before the handler runs; actions that are not
+ * registered go to a fallback handler.
+ *
+ * The catalog of registered actions (names, descriptions and JSON schemas of the
+ * parameters) is sent to the AI as a context update so it knows which tools the page
+ * supports.
+ */
+
+import { z } from 'zod'
+
+import type { ActionHandler, ActionResult } from '../channel/useCallChannel'
+import type { ActionPayload } from '../channelTypes'
+import { TypedEventEmitter } from '../client/eventEmitter'
+import { logDebug } from '../utils'
+import { formatSchemaIssues } from '../utils/channel'
+
+/**
+ * Host app helpers available to action handlers
+ */
+export interface ActionContext {
+    /** SPA navigation callback (see `WebRTCPhoneProps.onNavigate`) */
+    onNavigate?: (path: string) => void
+    /** Handler for actions that are not registered; overrides the registry fallback */
+    fallback?: ActionHandler
+    /** Aborts when the action times out or is cancelled */
+    signal?: AbortSignal
+}
+
+// Parameters of an action registered without a schema
+const anyParametersSchema = z.record(z.string(), z.unknown())
+type AnyParametersSchema = typeof anyParametersSchema
+
+/**
+ * A registered action
+ */
+export interface ActionDefinition<S extends z.ZodType = AnyParametersSchema> {
+    /** Parameter schema. Default: any object */
+    schema?: S
+    /** Runs the action with the validated parameters */
+    handler: (
+        params: z.output<S>,
+        action: ActionPayload,
+        context: ActionContext,
+    ) => ActionResult | Promise<ActionResult>
+    /** What the action does, for the AI */
+    description?: string
+}
+
+/**
+ * Entry of the action catalog sent to the AI
+ */
+export interface ActionCatalogEntry {
+    name: string
+    description?: string
+    /** JSON schema of the parameters */
+    parameters?: Record<string, unknown>
+}
+
+export interface ActionRegistryEvents {
+    /** Actions were registered or removed */
+    changed: { names: string[] }
+}
+
+export class ActionRegistry extends TypedEventEmitter<ActionRegistryEvents> {
+    private readonly actions = new Map<string, ActionDefinition<z.ZodType>>()
+    private fallback: ActionHandler | null = null
+
+    /**
+     * Register an action, replacing one with the same name. Returns a function that
+     * removes it again.
+     */
+    register = <S extends z.ZodType = AnyParametersSchema>(
+        name: string,
+        definition: ActionDefinition<S>,
+    ): (() => void) => {
+        const stored = definition as unknown as ActionDefinition<z.ZodType>
+        this.actions.set(name, stored)
+        this.emit('changed', { names: this.names })
+        return () => {
+            if (this.actions.get(name) === stored) this.unregister(name)
+        }
+    }
+
+    /** Remove an action. Returns false if it was not registered */
+    unregister = (name: string): boolean => {
+        const removed = this.actions.delete(name)
+        if (removed) this.emit('changed', { names: this.names })
+        return removed
+    }
+
+    has = (name: string): boolean => this.actions.has(name)
+
+    /** Names of the registered actions */
+    get names(): string[] {
+        return [...this.actions.keys()]
+    }
+
+    /** Handler for actions that are not registered (null: fail them as unknown) */
+    setFallback = (fallback: ActionHandler | null) => {
+        this.fallback = fallback
+    }
+
+    /** Registered actions with their descriptions and parameter JSON schemas */
+    catalog = (): ActionCatalogEntry[] =>
+        [...this.actions].map(([name, { schema, description }]) => {
+            let parameters: Record<string, unknown> | undefined
+            try {
+                parameters = z.toJSONSchema(schema ?? anyParametersSchema, {
+                    unrepresentable: 'any',
+                }) as Record<string, unknown>
+            } catch {
+                // Leave the parameters undescribed rather than dropping the action
+            }
+            return { name, description, parameters }
+        })
+
+    /**
+     * Run an action: validate its parameters and call the handler, or the fallback for
+     * an unregistered action. Invalid parameters fail the action without running it.
+     */
+    execute = async (action: ActionPayload, context: ActionContext = {}): Promise<ActionResult> => {
+        const definition = this.actions.get(action.name)
+        if (!definition) {
+            const fallback = context.fallback ?? this.fallback
+            if (fallback) return fallback(action, context.signal)
+            logDebug('Unknown action:', action.name)
+            return { success: false, error: `Unknown action: ${action.name}` }
+        }
+
+        const parsed = (definition.schema ?? anyParametersSchema).safeParse(action.parameters)
+        if (!parsed.success) {
+            const issues = formatSchemaIssues(parsed.error.issues)
+            logDebug('Invalid parameters for action:', action.name, issues)
+            return {
+                success: false,
+                error: `Invalid parameters for ${action.name}: ${issues.join('; ')}`,
+            }
+        }
+        return definition.handler(parsed.data, action, context)
+    }
+}
+
+/**
+ * Text of the context update that tells the AI which actions the page supports
+ */
+export const formatActionCatalog = (catalog: ActionCatalogEntry[]): string =>
+    [
+        'Browser actions available on this page:',
+        ...catalog.map(({ name, description }) =>
+            description ? `- ${name}: ${description}` : `- ${name}`,
+        ),
+    ].join('\n')
@@ -0,0 +1,312 @@
+import { z } from 'zod'
+
+import { StandardActions } from '../channelTypes'
+import {
+    clickElement,
+    closeModal,
+    describeTarget,
+    downloadFile,
+    fillForm,
+    openModal,
+    playAudio,
+    scrollToElement,
+    showNotification,
+    stopAudio,
+} from '../utils/browserActions'
+
+import type { ActionRegistry } from './actionRegistry'
+
+const errorText = (error: unknown, fallback: string) =>
+    error instanceof Error ? error.message : fallback
+
+// =============================================================================
+// Parameter Schemas
+// =============================================================================
+
+const elementTargetShape = {
+    selector: z.string().optional().describe('CSS selector'),
+    label: z.string().optional().describe('Label text of a form field'),
+    text: z.string().optional().describe('Visible text of a button or link'),
+}
+const hasTarget = (target: { selector?: string; label?: string; text?: string }) =>
+    Boolean(target.selector || target.label || target.text)
+
+const elementTargetSchema = z
+    .object(elementTargetShape)
+    .refine(hasTarget, 'selector, label or text is required')
+
+const fieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+
+const storageSchema = z.enum(['local', 'session']).default('local')
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+/**
+ * Register the actions the SDK implements: dialogs and notifications, navigation, page
+ * interaction (forms, clicks, scrolling, modals), downloads, audio, clipboard and storage.
+ */
+export function registerBuiltinActions(registry: ActionRegistry): void {
+    // ============================================================
+    // Alert/Notification Actions
+    // ============================================================
+    registry.register('show_alert', {
+        description: 'Show an alert dialog; resolves when the user dismisses it',
+        schema: z.object({
+            message: z.string().default('Alert'),
+            title: z.string().optional(),
+        }),
+        handler: ({ message, title }) => {
+            alert(title ? `${title}\n\n${message}` : message)
+            return { success: true, data: { dismissed: true } }
+        },
+    })
+
+    registry.register('show_confirm', {
+        description: 'Ask the user to confirm; returns their choice',
+        schema: z.object({ message: z.string().default('Confirm?') }),
+        handler: ({ message }) => ({ success: true, data: { confirmed: confirm(message) } }),
+    })
+
+    registry.register('show_prompt', {
+        description: 'Ask the user for a value; returns the input',
+        schema: z.object({
+            message: z.string().default('Enter value:'),
+            defaultValue: z.string().default(''),
+        }),
+        handler: ({ message, defaultValue }) => {
+            const value = prompt(message, defaultValue)
+            return { success: true, data: { value, cancelled: value === null } }
+        },
+    })
+
+    registry.register(StandardActions.SHOW_NOTIFICATION, {
+        description: 'Show a system notification (an alert without notification permission)',
+        schema: z.object({
+            message: z.string().min(1),
+            title: z.string().optional(),
+            icon: z.string().optional(),
+        }),
+        handler: async (params) => {
+            const method = await showNotification(params)
+            return { success: true, data: { method } }
+        },
+    })
+
+    // ============================================================
+    // Navigation Actions
+    // ============================================================
+    registry.register(StandardActions.NAVIGATE, {
+        description: 'Open a URL in a new tab',
+        schema: z.object({ url: z.string().min(1) }),
+        handler: ({ url }) => {
+            window.open(url, '_blank')
+            return { success: true, data: { url } }
+        },
+    })
+
+    registry.register('navigate_current', {
+        description: 'Go to a URL in the current tab (in-app paths use the app router)',
+        schema: z.object({ url: z.string().min(1) }),
+        handler: ({ url }, _action, { onNavigate }) => {
+            // Check if it's an internal path (starts with /) or same-origin URL
+            const isInternal = url.startsWith('/') || url.startsWith(window.location.origin)
+            if (!isInternal) {
+                // External URL - use full page navigation
+                window.location.href = url
+                return { success: true, data: { url, method: 'full' } }
+            }
+
+            const path = url.startsWith('/') ? url : url.replace(window.location.origin, '')
+            if (onNavigate) {
+                // Use provided callback (e.g., Next.js router, React Router)
+                onNavigate(path)
+                return { success: true, data: { url: path, method: 'callback' } }
+            }
+            // Fallback to History API (works with most SPA routers)
+            window.history.pushState({}, '', path)
+            window.dispatchEvent(new PopStateEvent('popstate'))
+            return { success: true, data: { url: path, method: 'history' } }
+        },
+    })
+
+    // ============================================================
+    // Page Interaction Actions
+    // ============================================================
+    registry.register(StandardActions.FILL_FORM, {
+        description:
+            'Fill form fields, given as an object keyed by field name, id or label, or as a list of { selector | label | name, value }',
+        schema: z.object({
+            fields: z.union([
+                z.record(z.string(), fieldValueSchema),
+                z.array(
+                    z.object({
+                        ...elementTargetShape,
+                        name: z.string().optional(),
+                        value: fieldValueSchema,
+                    }),
+                ),
+            ]),
+            formSelector: z.string().optional().describe('Limit the lookup to this form'),
+        }),
+        handler: ({ fields, formSelector }) => {
+            const result = fillForm(fields, formSelector)
+            if (result.missing.length > 0) {
+                return {
+                    success: false,
+                    data: result,
+                    error: `Fields not found or not editable: ${result.missing.join(', ')}`,
+                }
+            }
+            return { success: true, data: result }
+        },
+    })
+
+    registry.register(StandardActions.CLICK_ELEMENT, {
+        description: 'Click a visible, enabled element',
+        schema: elementTargetSchema,
+        handler: (target) => {
+            try {
+                clickElement(target)
+                return { success: true, data: { clicked: describeTarget(target) } }
+            } catch (error) {
+                return { success: false, error: errorText(error, 'Click failed') }
+            }
+        },
+    })
+
+    registry.register(StandardActions.SCROLL_TO, {
+        description: 'Scroll an element into view, or the page to `top` pixels',
+        schema: z.object({
+            ...elementTargetShape,
+            top: z.number().optional(),
+            block: z.enum(['start', 'center', 'end', 'nearest']).default('center'),
+            behavior: z.enum(['smooth', 'instant', 'auto']).default('smooth'),
+        }),
+        handler: ({ top, block, behavior, ...target }) => {
+            if (!hasTarget(target)) {
+                // No element: scroll the page to a position
+                window.scrollTo({ top: top ?? 0, behavior })
+                return { success: true, data: { top: top ?? 0 } }
+            }
+            try {
+                scrollToElement(target, { block, behavior })
+                return { success: true, data: { scrolledTo: describeTarget(target) } }
+            } catch (error) {
+                return { success: false, error: errorText(error, 'Scroll failed') }
+            }
+        },
+    })
+
+    registry.register(StandardActions.OPEN_MODAL, {
+        description: 'Open a <dialog>, or click the button that opens a modal',
+        schema: elementTargetSchema,
+        handler: (target) => {
+            try {
+                return { success: true, data: { method: openModal(target) } }
+            } catch (error) {
+                return { success: false, error: errorText(error, 'Could not open modal') }
+            }
+        },
+    })
+
+    registry.register(StandardActions.CLOSE_MODAL, {
+        description: 'Close a modal: the given <dialog> or close button, else the topmost one',
+        schema: z.object(elementTargetShape),
+        handler: (target) => {
+            try {
+                return { success: true, data: { method: closeModal(target) } }
+            } catch (error) {
+                return { success: false, error: errorText(error, 'Could not close modal') }
+            }
+        },
+    })
+
+    // ============================================================
+    // Download Actions
+    // ============================================================
+    registry.register(StandardActions.DOWNLOAD_FILE, {
+        description: 'Download a file from a URL or from inline data',
+        schema: z
+            .object({
+                url: z.string().optional(),
+                data: z.string().optional(),
+                encoding: z.enum(['text', 'base64']).optional(),
+                filename: z.string().optional(),
+                mimeType: z.string().optional(),
+            })
+            .refine((params) => params.url || params.data !== undefined, 'url or data is required'),
+        handler: (params) => {
+            try {
+                return { success: true, data: { filename: downloadFile(params) } }
+            } catch (error) {
+                return { success: false, error: errorText(error, 'Download failed') }
+            }
+        },
+    })
+
+    // ============================================================
+    // Audio Actions
+    // ============================================================
+    registry.register(StandardActions.PLAY_AUDIO, {
+        description: 'Play an audio file (stops the one playing)',
+        schema: z.object({
+            url: z.string().min(1),
+            volume: z.number().min(0).max(1).optional(),
+            loop: z.boolean().optional(),
+        }),
+        handler: async (params) => {
+            try {
+                return { success: true, data: await playAudio(params) }
+            } catch (error) {
+                return { success: false, error: errorText(error, 'Playback failed') }
+            }
+        },
+    })
+
+    registry.register(StandardActions.STOP_AUDIO, {
+        description: 'Stop the audio started with play_audio',
+        schema: z.object({}),
+        handler: () => ({ success: true, data: { stopped: stopAudio() } }),
+    })
+
+    // ============================================================
+    // Clipboard Actions
+    // ============================================================
+    registry.register(StandardActions.COPY_TO_CLIPBOARD, {
+        description: 'Copy text to the clipboard',
+        schema: z.object({ text: z.string().min(1) }),
+        handler: async ({ text }) => {
+            try {
+                await navigator.clipboard.writeText(text)
+                return { success: true, data: { copied: text.length } }
+            } catch {
+                return { success: false, error: 'Clipboard access denied' }
+            }
+        },
+    })
+
+    // ============================================================
+    // Storage Actions
+    // ============================================================
+    registry.register(StandardActions.GET_STORAGE, {
+        description: 'Read a value from localStorage or sessionStorage',
+        schema: z.object({ key: z.string(), storage: storageSchema }),
+        handler: ({ key, storage }) => {
+            const store = storage === 'session' ? sessionStorage : localStorage
+            const value = store.getItem(key)
+            return { success: true, data: { key, value, found: value !== null } }
+        },
+    })
+
+    registry.register(StandardActions.SET_STORAGE, {
+        description: 'Write a value to localStorage or sessionStorage',
+        schema: z.object({ key: z.string(), value: z.string(), storage: storageSchema }),
+        handler: ({ key, value, storage }) => {
+            const store = storage === 'session' ? sessionStorage : localStorage
+            store.setItem(key, value)
+            return { success: true, data: { key } }
+        },
+    })
+}
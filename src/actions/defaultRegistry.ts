@@ -0,0 +1,20 @@
+import { ActionRegistry } from './actionRegistry'
+import { registerBuiltinActions } from './builtinActions'
+
+/**
+ * The registry behind `<WebRTCPhone>`, with the built-in actions registered
+ */
+export const defaultActionRegistry = new ActionRegistry()
+registerBuiltinActions(defaultActionRegistry)
+
+/**
+ * Register an action on the default registry. Returns a function that removes it.
+ *
+ * @example
+ * registerAction('add_to_cart', {
+ *     description: 'Add a product to the cart',
+ *     schema: z.object({ sku: z.string(), quantity: z.number().int().positive().default(1) }),
+ *     handler: async ({ sku, quantity }) => ({ success: true, data: await cart.add(sku, quantity) }),
+ * })
+ */
+export const registerAction = defaultActionRegistry.register
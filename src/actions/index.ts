@@ -0,0 +1,20 @@
+export {
+    describeAction,
+    evaluateActionPolicy,
+    isActionListed,
+    runWithPolicy,
+    type ActionConfirmationRequest,
+    type ActionConfirmHandler,
+    type ActionPolicy,
+    type ActionPolicyDecision,
+} from './actionPolicy'
+export {
+    ActionRegistry,
+    formatActionCatalog,
+    type ActionCatalogEntry,
+    type ActionContext,
+    type ActionDefinition,
+    type ActionRegistryEvents,
+} from './actionRegistry'
+export { registerBuiltinActions } from './builtinActions'
+export { defaultActionRegistry, registerAction } from './defaultRegistry'
@@ -12,6 +12,7 @@
  *     apiDomain: 'api.example.com',
  *     apiKey: 'my-key',
  *   })
+ *   DelphiWebRTC.on('callEnded', ({ callId, durationMs }) => saveCall(callId, durationMs))
  *   // later…
  *   DelphiWebRTC.initiateCall({ endpointId: 'ep_1', phoneNumber: '+14155550100' })
  * </script>
@@ -21,8 +22,16 @@ import * as React from 'react'
 
 import * as ReactDOM from 'react-dom/client'
 
+import type { ActionDefinition } from './actions/actionRegistry'
+import { defaultActionRegistry } from './actions/defaultRegistry'
+import { TypedEventEmitter } from './client'
 import { useWebRTCPhoneStore } from './stores/webrtcPhoneStore'
-import type { InitiateCallParams, WebRTCConfig } from './types'
+import type {
+    InitiateCallParams,
+    WebRTCConfig,
+    WebRTCPhoneEventCallbacks,
+    WebRTCPhoneEvents,
+} from './types'
 import { logger } from './utils'
 import { WebRTCConfigInit } from './WebRTCConfigInit'
 import { WebRTCPhone } from './WebRTCPhone'
@@ -35,6 +44,25 @@ type MountOptions = WebRTCConfig & {
 // Map of mounted roots keyed by container element so unmount works correctly
 const roots = new Map<Element, ReactDOM.Root>()
 
+// Listeners registered with DelphiWebRTC.on()
+class PhoneEvents extends TypedEventEmitter<WebRTCPhoneEvents> {
+    dispatch<K extends keyof WebRTCPhoneEvents>(event: K, payload: WebRTCPhoneEvents[K]) {
+        this.emit(event, payload)
+    }
+}
+const events = new PhoneEvents()
+
+// <WebRTCPhone> callbacks feeding DelphiWebRTC.on() listeners
+const eventCallbacks: Required<WebRTCPhoneEventCallbacks> = {
+    onRegistered: (payload) => events.dispatch('registered', payload),
+    onCallStarted: (payload) => events.dispatch('callStarted', payload),
+    onCallAnswered: (payload) => events.dispatch('callAnswered', payload),
+    onCallEnded: (payload) => events.dispatch('callEnded', payload),
+    onChatMessage: (payload) => events.dispatch('chatMessage', payload),
+    onActionReceived: (payload) => events.dispatch('actionReceived', payload),
+    onError: (payload) => events.dispatch('error', payload),
+}
+
 /**
  * Mount the WebRTC phone UI into a DOM element.
  *
@@ -68,7 +96,7 @@ function mount(selector: string | Element, options: MountOptions): void {
     root.render(
         <React.StrictMode>
             <WebRTCConfigInit config={config} />
-            <WebRTCPhone onNavigate={onNavigate} />
+            <WebRTCPhone onNavigate={onNavigate} {...eventCallbacks} />
         </React.StrictMode>,
     )
 }
@@ -118,6 +146,75 @@ function initiateCall(params: InitiateCallParams): void {
     useWebRTCPhoneStore.getState().initiateCall(params)
 }
 
+/**
+ * Mute or unmute the local microphone. Applies to the active call and is kept for
+ * streams created later (e.g. after a reconnect).
+ *
+ * @param muted true to mute, false to unmute
+ *
+ * @example
+ * DelphiWebRTC.setMuted(true)
+ */
+function setMuted(muted: boolean): void {
+    useWebRTCPhoneStore.getState().setMuted(muted)
+}
+
+/**
+ * Subscribe to a phone event. Returns a function that unsubscribes.
+ *
+ * Events: `registered`, `callStarted`, `callAnswered`, `callEnded`, `chatMessage`,
+ * `actionReceived`, `error`.
+ *
+ * @param event   Event name
+ * @param handler Called with the event payload
+ *
+ * @example
+ * DelphiWebRTC.on('callEnded', ({ callId, durationMs, reason }) => {
+ *   updateCrmRecord(callId, { durationMs, reason })
+ * })
+ */
+function on<K extends keyof WebRTCPhoneEvents>(
+    event: K,
+    handler: (payload: WebRTCPhoneEvents[K]) => void,
+): () => void {
+    return events.on(event, handler)
+}
+
+/**
+ * Remove a handler added with `on()`.
+ *
+ * @param event   Event name
+ * @param handler The handler passed to `on()`
+ */
+function off<K extends keyof WebRTCPhoneEvents>(
+    event: K,
+    handler: (payload: WebRTCPhoneEvents[K]) => void,
+): void {
+    events.off(event, handler)
+}
+
+/**
+ * Register a browser action the AI can call during a call. Replaces an action with the
+ * same name (including built-ins). Returns a function that removes it.
+ *
+ * Without a `schema` the handler receives the parameters unvalidated.
+ *
+ * @param name       Action name used by the AI
+ * @param definition `{ handler, description, schema }`
+ *
+ * @example
+ * DelphiWebRTC.registerAction('open_ticket', {
+ *   description: 'Open a support ticket by id',
+ *   handler: ({ id }) => {
+ *     openTicket(id)
+ *     return { success: true }
+ *   },
+ * })
+ */
+function registerAction(name: string, definition: ActionDefinition): () => void {
+    return defaultActionRegistry.register(name, definition)
+}
+
 /**
  * Read-only access to the current WebRTC config and pending call state.
  */
@@ -126,6 +223,7 @@ function getState() {
     return {
         webrtcConfig: s.webrtcConfig,
         pendingCall: s.pendingCall,
+        muted: s.connection.muted,
     }
 }
 
@@ -134,6 +232,10 @@ export const DelphiWebRTC = {
     unmount,
     configure,
     initiateCall,
+    setMuted,
+    on,
+    off,
+    registerAction,
     getState,
 }
 
@@ -0,0 +1,225 @@
+/**
+ * Action Executor
+ *
+ * Runs the actions the AI requests over the call channel. With a `concurrency` limit,
+ * actions wait in a queue ordered by `priority` (high, normal, low; first come first
+ * served within a priority). An action with `timeoutMs`, or any action once a
+ * `defaultTimeout` is set, gets that long from the moment it starts running; the handler
+ * can pause the clock, e.g. while the user confirms the action. An action that runs out
+ * of time, or that ARI cancels, fails at once and its slot is freed. The handler is told
+ * through its AbortSignal, and whatever it returns later is ignored.
+ */
+
+import type { ActionPayload, ActionPriority } from '../channelTypes'
+
+import type { ActionHandler, ActionResult, ActionTimeoutControl } from './useCallChannel'
+
+export interface ActionExecutorCounts {
+    /** Actions waiting for a free slot */
+    queued: number
+    /** Actions whose handler is running */
+    running: number
+}
+
+export interface ActionExecutorOptions {
+    /** Actions running at the same time (default: no limit) */
+    concurrency?: number
+    /** Timeout of actions that do not set `timeoutMs`, in ms (default: none) */
+    defaultTimeout?: number
+    /** Called once per action with its result, including timeouts and cancellations */
+    onSettled?: (action: ActionPayload, result: ActionResult, durationMs: number) => void
+    /** Called when the queued or running count changes */
+    onChange?: (counts: ActionExecutorCounts) => void
+}
+
+interface ExecutorEntry {
+    action: ActionPayload
+    handler: ActionHandler
+    receivedAt: number
+    controller: AbortController
+    /** Time left before the action times out; null without a timeout */
+    remainingMs: number | null
+    timer: ReturnType<typeof setTimeout> | null
+    /** When the running timer was started */
+    timerStartedAt: number
+    /** Pauses not resumed yet; the timer runs while this is 0 */
+    pauses: number
+    running: boolean
+}
+
+const PRIORITY_RANK: Record<ActionPriority, number> = { high: 0, normal: 1, low: 2 }
+
+const rank = (action: ActionPayload) => PRIORITY_RANK[action.priority ?? 'normal']
+
+export class ActionExecutor {
+    private readonly concurrency: number
+    private readonly defaultTimeout?: number
+    private readonly onSettled?: ActionExecutorOptions['onSettled']
+    private readonly onChange?: ActionExecutorOptions['onChange']
+    private queue: ExecutorEntry[] = []
+    private readonly running = new Map<string, ExecutorEntry>()
+
+    constructor({
+        concurrency = Infinity,
+        defaultTimeout,
+        onSettled,
+        onChange,
+    }: ActionExecutorOptions = {}) {
+        this.concurrency = Math.max(1, concurrency)
+        this.defaultTimeout = defaultTimeout
+        this.onSettled = onSettled
+        this.onChange = onChange
+    }
+
+    get counts(): ActionExecutorCounts {
+        return { queued: this.queue.length, running: this.running.size }
+    }
+
+    /** Whether an action is queued or running */
+    has(actionId: string): boolean {
+        return this.running.has(actionId) || this.queue.some((e) => e.action.actionId === actionId)
+    }
+
+    /** Queue an action, starting it right away if a slot is free */
+    enqueue(action: ActionPayload, handler: ActionHandler): void {
+        if (this.has(action.actionId)) return // Redelivered after a reconnect
+
+        const entry: ExecutorEntry = {
+            action,
+            handler,
+            receivedAt: Date.now(),
+            controller: new AbortController(),
+            remainingMs: action.timeoutMs ?? this.defaultTimeout ?? null,
+            timer: null,
+            timerStartedAt: 0,
+            pauses: 0,
+            running: false,
+        }
+
+        // After the last entry of the same or a higher priority
+        const index = this.queue.findIndex((queued) => rank(queued.action) > rank(action))
+        if (index === -1) this.queue.push(entry)
+        else this.queue.splice(index, 0, entry)
+        this.notify()
+        this.drain()
+    }
+
+    /**
+     * Cancel a queued or running action; it fails with a `cancelled` error. Returns false
+     * if the action is unknown or already finished.
+     */
+    cancel(actionId: string, reason?: string): boolean {
+        const entry =
+            this.running.get(actionId) ?? this.queue.find((e) => e.action.actionId === actionId)
+        if (!entry) return false
+        this.abort(entry, {
+            success: false,
+            error: 'cancelled',
+            data: { reason, started: entry.running },
+        })
+        return true
+    }
+
+    /** Drop every action without reporting results (e.g. when the call changes) */
+    clear(): void {
+        const entries = [...this.queue, ...this.running.values()]
+        this.queue = []
+        this.running.clear()
+        for (const entry of entries) {
+            this.clearTimer(entry)
+            entry.controller.abort()
+        }
+        this.notify()
+    }
+
+    private drain(): void {
+        while (this.running.size < this.concurrency && this.queue.length > 0) {
+            const entry = this.queue.shift()!
+            void this.run(entry)
+        }
+    }
+
+    private async run(entry: ExecutorEntry): Promise<void> {
+        entry.running = true
+        this.running.set(entry.action.actionId, entry)
+        this.startTimer(entry)
+        this.notify()
+
+        let result: ActionResult
+        try {
+            result = await entry.handler(
+                entry.action,
+                entry.controller.signal,
+                this.timeoutControl(entry),
+            )
+        } catch (error) {
+            result = {
+                success: false,
+                error: error instanceof Error ? error.message : 'Action failed',
+            }
+        }
+        // Timed out or cancelled meanwhile: that result was already reported
+        if (this.running.get(entry.action.actionId) !== entry) return
+        this.settle(entry, result)
+    }
+
+    // Fail an action that has not finished and abort its handler
+    private abort(entry: ExecutorEntry, result: ActionResult): void {
+        entry.controller.abort()
+        this.settle(entry, result)
+    }
+
+    private settle(entry: ExecutorEntry, result: ActionResult): void {
+        this.clearTimer(entry)
+        this.queue = this.queue.filter((queued) => queued !== entry)
+        this.running.delete(entry.action.actionId)
+        this.notify()
+        this.onSettled?.(entry.action, result, Date.now() - entry.receivedAt)
+        this.drain()
+    }
+
+    private startTimer(entry: ExecutorEntry): void {
+        const { remainingMs } = entry
+        if (remainingMs === null || entry.timer || entry.pauses > 0) return
+        entry.timerStartedAt = Date.now()
+        entry.timer = setTimeout(() => {
+            entry.timer = null
+            this.abort(entry, {
+                success: false,
+                error: 'timeout',
+                data: { timeoutMs: entry.action.timeoutMs ?? this.defaultTimeout },
+            })
+        }, remainingMs)
+    }
+
+    // Stop the clock of a running action until every pause is resumed
+    private timeoutControl(entry: ExecutorEntry): ActionTimeoutControl {
+        return {
+            pause: () => {
+                entry.pauses++
+                if (entry.timer && entry.remainingMs !== null) {
+                    entry.remainingMs -= Date.now() - entry.timerStartedAt
+                    this.clearTimer(entry)
+                }
+                let resumed = false
+                return () => {
+                    if (resumed) return
+                    resumed = true
+                    entry.pauses--
+                    if (this.running.get(entry.action.actionId) === entry) this.startTimer(entry)
+                }
+            },
+        }
+    }
+
+    private clearTimer(entry: ExecutorEntry): void {
+        if (entry.timer) {
+            clearTimeout(entry.timer)
+            entry.timer = null
+        }
+    }
+
+    private notify(): void {
+        this.onChange?.(this.counts)
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Async Action Tracker
+ *
+ * In-memory registry of the async actions the AI is waiting on: actions whose handler
+ * returned `{ async: true }` and that still owe ARI a final result. It records their
+ * status, start time and progress messages, remembers which actions already got a
+ * final result so a second one can be refused, and hands back the open actions when
+ * the call ends so they can be failed.
+ */
+
+import type { ActionPayload } from '../channelTypes'
+
+/**
+ * An async action that has not sent its final result yet
+ */
+export interface AsyncActionEntry {
+    actionId: string
+    /** Action name, e.g. `fill_form` */
+    name: string
+    /** Description sent by the AI with the action */
+    description?: string
+    status: 'received' | 'executing'
+    /** When the action was received (ms timestamp) */
+    startedAt: number
+    /** Progress messages, oldest first */
+    progress: Array<{ message: string; at: number }>
+}
+
+/** Outcome of `finish()` */
+export type AsyncActionFinish = 'finished' | 'duplicate' | 'unknown'
+
+// Finished actionIds remembered to catch duplicate finals
+const MAX_FINISHED_IDS = 200
+
+export class AsyncActionTracker {
+    private readonly entries = new Map<string, AsyncActionEntry>()
+    private readonly finished = new Set<string>()
+    private readonly onChange?: (actions: AsyncActionEntry[]) => void
+
+    constructor(onChange?: (actions: AsyncActionEntry[]) => void) {
+        this.onChange = onChange
+    }
+
+    /** Open actions, oldest first */
+    get actions(): AsyncActionEntry[] {
+        return [...this.entries.values()]
+    }
+
+    /** Start tracking an action that returned `{ async: true }` */
+    track(action: ActionPayload, message?: string): void {
+        const now = Date.now()
+        this.entries.set(action.actionId, {
+            actionId: action.actionId,
+            name: action.name,
+            description: action.description,
+            status: 'received',
+            startedAt: now,
+            progress: message ? [{ message, at: now }] : [],
+        })
+        this.notify()
+    }
+
+    /** Record a status change or progress message. Returns false for an action not open */
+    update(actionId: string, status?: AsyncActionEntry['status'], message?: string): boolean {
+        const entry = this.entries.get(actionId)
+        if (!entry) return false
+        this.entries.set(actionId, {
+            ...entry,
+            status: status ?? entry.status,
+            progress: message ? [...entry.progress, { message, at: Date.now() }] : entry.progress,
+        })
+        this.notify()
+        return true
+    }
+
+    /**
+     * Mark an action as finished. `duplicate` means it already got its final result,
+     * `unknown` that it was never tracked.
+     */
+    finish(actionId: string): AsyncActionFinish {
+        if (this.finished.has(actionId)) return 'duplicate'
+        this.rememberFinished(actionId)
+        if (!this.entries.delete(actionId)) return 'unknown'
+        this.notify()
+        return 'finished'
+    }
+
+    /** Stop tracking every open action and return them (e.g. to fail them at hangup) */
+    takeAll(): AsyncActionEntry[] {
+        const open = this.actions
+        if (open.length === 0) return open
+        this.entries.clear()
+        open.forEach(({ actionId }) => this.rememberFinished(actionId))
+        this.notify()
+        return open
+    }
+
+    private rememberFinished(actionId: string): void {
+        this.finished.add(actionId)
+        if (this.finished.size > MAX_FINISHED_IDS) {
+            const [oldest] = this.finished
+            this.finished.delete(oldest)
+        }
+    }
+
+    private notify(): void {
+        this.onChange?.(this.actions)
+    }
+}
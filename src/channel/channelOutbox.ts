@@ -0,0 +1,199 @@
+/**
+ * Channel Outbox
+ *
+ * Outbound message queue for the call channel. Messages are buffered while the
+ * socket is down and flushed in order once it is open again; a message handed to the
+ * open socket counts as delivered. With `requireAck` a sent message instead stays
+ * pending until TelAPI acknowledges its `messageId` with an `ack` message; an
+ * unacknowledged message is resent after `ackTimeout` and fails after `maxAttempts`
+ * sends. Resends reuse the `messageId`, so the receiver can drop duplicates.
+ */
+
+import type { ChannelMessage } from '../channelTypes'
+
+export interface ChannelOutboxCounts {
+    /** Messages waiting to be sent or acknowledged */
+    pending: number
+    /** Messages that could not be delivered */
+    failed: number
+}
+
+export interface ChannelOutboxOptions {
+    /** Keep sent messages until TelAPI acks them, resending them meanwhile (default: false) */
+    requireAck?: boolean
+    /** With `requireAck`, how long to wait for an ack before resending, in ms (default: 10000) */
+    ackTimeout?: number
+    /** With `requireAck`, sends of a message before it fails (default: 3) */
+    maxAttempts?: number
+    /** Pending messages kept; the oldest fails when a new one overflows (default: 100) */
+    maxSize?: number
+    /** Called when a message fails */
+    onFailed?: (message: ChannelMessage, error: Error) => void
+    /** Called when the pending or failed count changes */
+    onChange?: (counts: ChannelOutboxCounts) => void
+}
+
+interface OutboxEntry {
+    message: ChannelMessage
+    /** Sends so far */
+    attempts: number
+    /** Ack timeout of the last send; null while waiting to be sent */
+    ackTimer: ReturnType<typeof setTimeout> | null
+}
+
+export class ChannelOutbox {
+    private readonly options: Required<Omit<ChannelOutboxOptions, 'onFailed' | 'onChange'>>
+    private readonly onFailed?: ChannelOutboxOptions['onFailed']
+    private readonly onChange?: ChannelOutboxOptions['onChange']
+    private entries: OutboxEntry[] = []
+    private failedMessages: ChannelMessage[] = []
+    private send: ((data: string) => void) | null = null
+
+    constructor({
+        requireAck = false,
+        ackTimeout = 10000,
+        maxAttempts = 3,
+        maxSize = 100,
+        onFailed,
+        onChange,
+    }: ChannelOutboxOptions = {}) {
+        this.options = { requireAck, ackTimeout, maxAttempts, maxSize }
+        this.onFailed = onFailed
+        this.onChange = onChange
+    }
+
+    get counts(): ChannelOutboxCounts {
+        return { pending: this.entries.length, failed: this.failedMessages.length }
+    }
+
+    /** Messages that failed, oldest first */
+    get failed(): readonly ChannelMessage[] {
+        return this.failedMessages
+    }
+
+    /**
+     * Use an open socket for sending and flush the queue through it.
+     * Messages that were waiting for an ack on the previous socket are resent.
+     */
+    attach(send: (data: string) => void): void {
+        this.send = send
+        for (const entry of [...this.entries]) {
+            this.transmit(entry)
+        }
+    }
+
+    /** Stop sending; queued and unacknowledged messages wait for the next attach */
+    detach(): void {
+        this.send = null
+        for (const entry of this.entries) {
+            this.clearAckTimer(entry)
+        }
+    }
+
+    /** Queue a message, sending it right away if a socket is attached */
+    enqueue(message: ChannelMessage): void {
+        if (this.entries.length >= this.options.maxSize) {
+            const [oldest] = this.entries
+            this.fail(oldest, new Error('Channel outbox is full'))
+        }
+        const entry: OutboxEntry = { message, attempts: 0, ackTimer: null }
+        this.entries.push(entry)
+        this.notify()
+        if (this.send) this.transmit(entry)
+    }
+
+    /**
+     * Mark a message as delivered. A late ack also removes an already failed message.
+     * Returns false for an unknown messageId.
+     */
+    acknowledge(messageId: string): boolean {
+        const index = this.entries.findIndex((entry) => entry.message.messageId === messageId)
+        if (index !== -1) {
+            this.remove(this.entries[index])
+            return true
+        }
+        const failedIndex = this.failedMessages.findIndex(
+            (message) => message.messageId === messageId,
+        )
+        if (failedIndex === -1) return false
+        this.failedMessages.splice(failedIndex, 1)
+        this.notify()
+        return true
+    }
+
+    /** Queue the failed messages again, in their original order */
+    retryFailed(): void {
+        const messages = this.failedMessages
+        if (messages.length === 0) return
+        this.failedMessages = []
+        for (const message of messages) {
+            this.enqueue(message)
+        }
+    }
+
+    /** Drop all pending and failed messages (e.g. when the call changes) */
+    clear(): void {
+        for (const entry of this.entries) {
+            this.clearAckTimer(entry)
+        }
+        this.entries = []
+        this.failedMessages = []
+        this.notify()
+    }
+
+    private transmit(entry: OutboxEntry): void {
+        if (!this.send) return
+        this.clearAckTimer(entry)
+        if (entry.attempts >= this.options.maxAttempts) {
+            this.fail(
+                entry,
+                new Error(
+                    `Channel message ${entry.message.messageId} was not acknowledged after ${entry.attempts} attempts`,
+                ),
+            )
+            return
+        }
+
+        entry.attempts++
+        try {
+            this.send(JSON.stringify(entry.message))
+        } catch {
+            // Socket is closing; the entry is resent on the next attach
+            return
+        }
+        if (!this.options.requireAck) {
+            this.remove(entry)
+            return
+        }
+        entry.ackTimer = setTimeout(() => {
+            entry.ackTimer = null
+            this.transmit(entry)
+        }, this.options.ackTimeout)
+    }
+
+    private remove(entry: OutboxEntry): void {
+        this.clearAckTimer(entry)
+        this.entries = this.entries.filter((candidate) => candidate !== entry)
+        this.notify()
+    }
+
+    private fail(entry: OutboxEntry, error: Error): void {
+        this.clearAckTimer(entry)
+        this.entries = this.entries.filter((candidate) => candidate !== entry)
+        this.failedMessages.push(entry.message)
+        if (this.failedMessages.length > this.options.maxSize) this.failedMessages.shift()
+        this.notify()
+        this.onFailed?.(entry.message, error)
+    }
+
+    private clearAckTimer(entry: OutboxEntry): void {
+        if (entry.ackTimer) {
+            clearTimeout(entry.ackTimer)
+            entry.ackTimer = null
+        }
+    }
+
+    private notify(): void {
+        this.onChange?.(this.counts)
+    }
+}
@@ -4,8 +4,30 @@ export {
     type UseCallChannelReturn,
     type ConnectionState,
     type ActionHandler,
+    type ActionTimeoutControl,
     type MessageHandler,
     type ActionResult,
     type SyncActionResult,
     type AsyncActionResult,
+    type ChannelReconnectPolicy,
+    type ChannelRequestOptions,
 } from './useCallChannel'
+export { ChannelOutbox, type ChannelOutboxOptions, type ChannelOutboxCounts } from './channelOutbox'
+export {
+    AsyncActionTracker,
+    type AsyncActionEntry,
+    type AsyncActionFinish,
+} from './asyncActionTracker'
+export {
+    ActionExecutor,
+    type ActionExecutorOptions,
+    type ActionExecutorCounts,
+} from './actionExecutor'
+export {
+    ChannelProtocolError,
+    ChannelRequestError,
+    parseChannelMessage,
+    type ChannelValidationMode,
+    type ChannelRequestErrorCode,
+} from '../utils/channel'
+export type { ConversationContext } from '../channelTypes'
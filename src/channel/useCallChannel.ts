@@ -16,19 +16,29 @@
  * - Use enableTextChat() to start text conversation
  * - Use disableTextChat() to go back to voice-only
  * - AI only responds to chat when text chat is enabled
+ *
+ * Outgoing messages go through a ChannelOutbox: they are queued while the socket
+ * is reconnecting and resent until TelAPI acknowledges them. Actions run through an
+ * ActionExecutor, which orders them by priority and enforces their timeouts. Async
+ * actions are tracked until they send their final result; open ones fail at hangup.
  */
 
 import { useRef, useState, useCallback, useEffect, startTransition } from 'react'
+import type { z } from 'zod'
 
-import type {
-    ChannelMessage,
-    ActionPayload,
-    ChatPayload,
-    StatusPayload,
-    ControlPayload,
-    ResponseMode,
+import {
+    conversationContextSchema,
+    type ChannelMessage,
+    type ChannelPayloads,
+    type ActionPayload,
+    type ChatPayload,
+    type ConversationContext,
+    type StatusPayload,
+    type ControlPayload,
+    type ResponseMode,
+    type StatusState,
 } from '../channelTypes'
-import { logger } from '../utils'
+import { computeBackoffDelay, logger, type BackoffOptions } from '../utils'
 import {
     createChatMessage,
     createActionResultMessage,
@@ -42,10 +52,19 @@ import {
     createContextUpdateMessage,
     createTextChatMessage,
     createReadAloudMessage,
+    createStatusMessage,
+    createRequestMessage,
+    parseChannelMessage,
+    ChannelRequestError,
+    type ChannelValidationMode,
 } from '../utils/channel'
 
-// Connection states
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+import { ActionExecutor, type ActionExecutorCounts } from './actionExecutor'
+import { AsyncActionTracker, type AsyncActionEntry } from './asyncActionTracker'
+import { ChannelOutbox, type ChannelOutboxCounts } from './channelOutbox'
+
+// Connection states; `stale` means connected but a pong is overdue
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'stale' | 'reconnecting'
 
 /**
  * Sync action result - action completed immediately
@@ -74,15 +93,55 @@ export interface AsyncActionResult {
  */
 export type ActionResult = SyncActionResult | AsyncActionResult
 
+/**
+ * Stops an action's timeout while it waits on something outside its control
+ */
+export interface ActionTimeoutControl {
+    /** Pause the timeout; call the returned function to resume it */
+    pause: () => () => void
+}
+
 /**
  * Action handler type
- * Can return sync result or async indicator
+ * Can return sync result or async indicator. The signal aborts when the action times
+ * out or is cancelled; its result is ignored from then on. `timeout` lets it leave time
+ * spent waiting for the user out of the action's timeout
  */
-export type ActionHandler = (action: ActionPayload) => Promise<ActionResult>
+export type ActionHandler = (
+    action: ActionPayload,
+    signal?: AbortSignal,
+    timeout?: ActionTimeoutControl,
+) => Promise<ActionResult>
 
 // Message handler type
 export type MessageHandler = (message: ChannelMessage) => void
 
+/**
+ * Options for a request sent with `request()`
+ */
+export interface ChannelRequestOptions<T> {
+    /** How long to wait for the response in ms (default: the hook's `requestTimeout`) */
+    timeoutMs?: number
+    /** Schema the response data must match; the request fails with `invalid_response` otherwise */
+    schema?: z.ZodType<T>
+}
+
+// Request waiting for its response
+interface PendingRequest {
+    resolve: (data: unknown) => void
+    reject: (error: ChannelRequestError) => void
+    timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Reconnection policy of the call channel. Delays grow from `baseDelayMs` by
+ * `multiplier` up to `maxDelayMs`, minus up to `jitter` of the delay at random.
+ */
+export interface ChannelReconnectPolicy extends Partial<BackoffOptions> {
+    /** Reconnection attempts before giving up (default: 10, `Infinity` for no limit) */
+    maxAttempts?: number
+}
+
 export interface UseCallChannelOptions {
     /** Call ID from call token */
     callId: string | null
@@ -102,25 +161,83 @@ export interface UseCallChannelOptions {
     onControl?: (control: ControlPayload, message: ChannelMessage) => void
     /** Handler for connection state changes */
     onConnectionChange?: (state: ConnectionState) => void
-    /** Handler for errors */
+    /** Handler for errors, including `ChannelProtocolError` for invalid inbound messages */
     onError?: (error: Error) => void
+    /** Handler for outgoing messages that were never acknowledged (also reported to onError) */
+    onMessageFailed?: (message: ChannelMessage, error: Error) => void
+    /**
+     * Validation of inbound messages (default: 'strict'). Messages that fail it are
+     * dropped and reported through onError
+     */
+    validation?: ChannelValidationMode
     /** Enable auto-reconnection (default: true) */
     autoReconnect?: boolean
-    /** Reconnection delay in ms (default: 2000) */
+    /**
+     * Reconnection backoff (defaults: baseDelayMs = reconnectDelay, multiplier 2,
+     * maxDelayMs 30000, jitter 0.5, maxAttempts 10)
+     */
+    reconnect?: ChannelReconnectPolicy
+    /**
+     * Called when the server rejects the token (close codes 4001-4099). Resolve with a
+     * fresh token to reconnect with it, or null to stay disconnected
+     */
+    onTokenExpired?: () => Promise<string | null>
+    /** Handler called when reconnection gives up after `reconnect.maxAttempts` */
+    onReconnectFailed?: (attempts: number) => void
+    /**
+     * Delay before the first reconnection attempt in ms (default: 2000)
+     * @deprecated Use `reconnect.baseDelayMs`
+     */
     reconnectDelay?: number
     /** Ping interval in ms (default: 30000) */
     pingInterval?: number
+    /**
+     * How long to wait for a pong in ms (default: 10000). A missed pong makes the channel
+     * `stale` and is retried at once; a second miss forces a reconnect
+     */
+    pongTimeout?: number
+    /**
+     * Keep sent messages until TelAPI acks them, resending unacknowledged ones (default:
+     * false). Without it a message sent on the open socket counts as delivered
+     */
+    requireAck?: boolean
+    /** With `requireAck`, how long to wait for an ack before resending, in ms (default: 10000) */
+    ackTimeout?: number
+    /** How long requests wait for their response in ms (default: 10000) */
+    requestTimeout?: number
+    /** With `requireAck`, sends of a message before it counts as failed (default: 3) */
+    maxSendAttempts?: number
+    /** Outgoing messages kept while disconnected (default: 100) */
+    outboxSize?: number
+    /** Actions running at the same time; the rest wait by priority (default: no limit) */
+    actionConcurrency?: number
+    /** Timeout in ms of actions that do not set `timeoutMs` (default: none) */
+    actionTimeout?: number
+    /** Called when async actions start, report progress or finish */
+    onAsyncActionsChange?: (actions: AsyncActionEntry[]) => void
 }
 
 export interface UseCallChannelReturn {
     /** Current connection state */
     connectionState: ConnectionState
-    /** Whether connected */
+    /** Whether connected (also while `stale`) */
     connected: boolean
+    /** Round-trip time of the last ping in ms, null until the first pong */
+    channelLatencyMs: number | null
     /** Whether text chat is enabled (AI will respond to text) */
     textChatEnabled: boolean
     /** Chat message history */
     messages: ChannelMessage[]
+    /** Outgoing messages waiting to be sent or acknowledged */
+    pendingCount: number
+    /** Outgoing messages that were never acknowledged */
+    failedCount: number
+    /** Actions waiting for a free slot */
+    queuedActions: number
+    /** Actions whose handler is running */
+    runningActions: number
+    /** Async actions waiting for their final result, oldest first */
+    asyncActions: AsyncActionEntry[]
     /**
      * Send a chat message with full control over response behavior
      * @param content - Message content
@@ -156,7 +273,8 @@ export interface UseCallChannelReturn {
     disableTextChat: () => boolean
     /**
      * Send async action result (for actions that return { async: true })
-     * Call this when async action completes
+     * Call this when async action completes. A second final result for the same action
+     * is not sent (returns false)
      */
     sendAsyncActionResult: (
         actionId: string,
@@ -167,7 +285,12 @@ export interface UseCallChannelReturn {
      * Send async action progress update
      * Use to notify AI that action is still executing
      */
-    sendActionProgress: (actionId: string, status: 'received' | 'executing') => boolean
+    sendActionProgress: (
+        actionId: string,
+        status: 'received' | 'executing',
+        /** Progress message kept in `asyncActions` for the UI */
+        progress?: string,
+    ) => boolean
     /**
      * Send async action update via chat
      * Alternative way to report async action completion with descriptive message
@@ -177,14 +300,40 @@ export interface UseCallChannelReturn {
         content: string,
         metadata?: Record<string, unknown>,
     ) => boolean
+    /**
+     * Send a status update to ARI (e.g. call_hold / call_resumed)
+     */
+    sendStatus: (state: StatusState, metadata?: Record<string, unknown>) => boolean
     /** Send a custom message */
     sendMessage: (message: Partial<ChannelMessage>) => boolean
+    /**
+     * Send a request and wait for the `response` with the same correlationId.
+     * Rejects with a ChannelRequestError on timeout or a failed response.
+     * @param type - Message type, e.g. 'control'
+     * @param payload - Payload for the type, e.g. `{ command: 'request_context' }`
+     */
+    request: <T = unknown, K extends keyof ChannelPayloads = keyof ChannelPayloads>(
+        type: K,
+        payload: ChannelPayloads[K],
+        options?: ChannelRequestOptions<T>,
+    ) => Promise<T>
+    /** Get the AI's current conversation context */
+    requestContext: (options?: { timeoutMs?: number }) => Promise<ConversationContext>
+    /** Clear the AI's conversation context; resolves once ARI confirms */
+    clearContext: (options?: { timeoutMs?: number }) => Promise<void>
     /** Manually connect */
     connect: () => void
     /** Manually disconnect */
     disconnect: () => void
     /** Clear message history */
     clearMessages: () => void
+    /** Queue the failed outgoing messages again */
+    retryFailed: () => void
+    /**
+     * Cancel a queued or running action; ARI gets a failed result with a `cancelled` error.
+     * Returns false if the action is not pending
+     */
+    cancelAction: (actionId: string, reason?: string) => boolean
     /** Last error if any */
     lastError: Error | null
 }
@@ -203,24 +352,115 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         onControl,
         onConnectionChange,
         onError,
+        onMessageFailed,
+        validation = 'strict',
         autoReconnect = true,
+        reconnect = {},
+        onTokenExpired,
+        onReconnectFailed,
         reconnectDelay = 2000,
         pingInterval = 30000,
+        pongTimeout = 10000,
+        requestTimeout = 10000,
+        requireAck = false,
+        ackTimeout = 10000,
+        maxSendAttempts = 3,
+        outboxSize = 100,
+        actionConcurrency,
+        actionTimeout,
+        onAsyncActionsChange,
     } = options
+    const {
+        baseDelayMs = reconnectDelay,
+        maxDelayMs = 30000,
+        multiplier = 2,
+        jitter = 0.5,
+        maxAttempts = 10,
+    } = reconnect
 
     // State
     const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected')
     const [messages, setMessages] = useState<ChannelMessage[]>([])
     const [lastError, setLastError] = useState<Error | null>(null)
+    const [channelLatencyMs, setChannelLatencyMs] = useState<number | null>(null)
     const [textChatEnabled, setTextChatEnabled] = useState(false)
+    const [outboxCounts, setOutboxCounts] = useState<ChannelOutboxCounts>({
+        pending: 0,
+        failed: 0,
+    })
+    const [actionCounts, setActionCounts] = useState<ActionExecutorCounts>({
+        queued: 0,
+        running: 0,
+    })
+    const [asyncActions, setAsyncActions] = useState<AsyncActionEntry[]>([])
 
     // Refs
     const wsRef = useRef<WebSocket | null>(null)
     const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const reconnectAttemptsRef = useRef(0)
+    // Latest token; a refreshed token is used for the next connection only
+    const wsTokenRef = useRef(wsToken)
+    // Set once the token was refreshed after an auth close, until the next open
+    const tokenRefreshedRef = useRef(false)
+    // Reconnection is paused until the browser is back online
+    const waitingForOnlineRef = useRef(false)
     const pingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+    // Heartbeat: pong deadline of the outstanding ping, when it was sent, and whether a pong
+    // was already missed
+    const pongTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const pingSentAtRef = useRef<number | null>(null)
+    const staleRef = useRef(false)
     const lastMessageIdRef = useRef<string | null>(null)
     const mountedRef = useRef(true)
     const connectRef = useRef<(() => void) | null>(null)
+    const messageFailedRef = useRef<((message: ChannelMessage, error: Error) => void) | null>(null)
+    // Requests waiting for a response, by correlationId
+    const pendingRequestsRef = useRef(new Map<string, PendingRequest>())
+    const asyncActionsChangeRef = useRef(onAsyncActionsChange)
+    const actionSettledRef = useRef<
+        ((action: ActionPayload, result: ActionResult, durationMs: number) => void) | null
+    >(null)
+
+    // Outbox is created once; later changes to its options are ignored
+    const [outbox] = useState(
+        () =>
+            new ChannelOutbox({
+                requireAck,
+                ackTimeout,
+                maxAttempts: maxSendAttempts,
+                maxSize: outboxSize,
+                onFailed: (message, error) => messageFailedRef.current?.(message, error),
+                onChange: (counts) => {
+                    if (mountedRef.current) setOutboxCounts(counts)
+                },
+            }),
+    )
+
+    // Executor is created once as well; it reports results through actionSettledRef
+    const [executor] = useState(
+        () =>
+            new ActionExecutor({
+                concurrency: actionConcurrency,
+                defaultTimeout: actionTimeout,
+                onSettled: (action, result, durationMs) =>
+                    actionSettledRef.current?.(action, result, durationMs),
+                onChange: (counts) => {
+                    if (mountedRef.current) setActionCounts(counts)
+                },
+            }),
+    )
+
+    const [asyncTracker] = useState(
+        () =>
+            new AsyncActionTracker((actions) => {
+                if (mountedRef.current) setAsyncActions(actions)
+                // Also after unmount, so the actions failed at teardown leave the caller's state
+                asyncActionsChangeRef.current?.(actions)
+            }),
+    )
+    useEffect(() => {
+        asyncActionsChangeRef.current = onAsyncActionsChange
+    }, [onAsyncActionsChange])
 
     // Update connection state and notify
     const updateConnectionState = useCallback(
@@ -243,33 +483,168 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         [onError],
     )
 
-    // Send message through WebSocket
+    // Stop pinging and forget the outstanding ping
+    const stopHeartbeat = useCallback(() => {
+        if (pingTimerRef.current) {
+            clearInterval(pingTimerRef.current)
+            pingTimerRef.current = null
+        }
+        if (pongTimerRef.current) {
+            clearTimeout(pongTimerRef.current)
+            pongTimerRef.current = null
+        }
+        pingSentAtRef.current = null
+        staleRef.current = false
+    }, [])
+
+    // Pong received: measure the round trip and leave the stale state
+    const handlePong = useCallback(() => {
+        if (pingSentAtRef.current === null) return
+        setChannelLatencyMs(Date.now() - pingSentAtRef.current)
+        pingSentAtRef.current = null
+        if (pongTimerRef.current) {
+            clearTimeout(pongTimerRef.current)
+            pongTimerRef.current = null
+        }
+        if (staleRef.current) {
+            staleRef.current = false
+            logger.debug('[CallChannel] Pong received, channel is live again')
+            updateConnectionState('connected')
+        }
+    }, [updateConnectionState])
+
+    // Report messages the outbox gave up on
+    useEffect(() => {
+        messageFailedRef.current = (message, error) => {
+            onMessageFailed?.(message, error)
+            handleError(error)
+        }
+    }, [onMessageFailed, handleError])
+
+    // Schedule the next reconnection attempt with backoff, or give up
+    const scheduleReconnect = useCallback(() => {
+        if (reconnectAttemptsRef.current >= maxAttempts) {
+            const attempts = reconnectAttemptsRef.current
+            reconnectAttemptsRef.current = 0
+            logger.warn(`[CallChannel] Giving up reconnection after ${attempts} attempts`)
+            updateConnectionState('disconnected')
+            onReconnectFailed?.(attempts)
+            handleError(new Error(`Call channel reconnection failed after ${attempts} attempts`))
+            return
+        }
+
+        updateConnectionState('reconnecting')
+
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            logger.debug('[CallChannel] Offline, waiting for the network before reconnecting')
+            waitingForOnlineRef.current = true
+            return
+        }
+
+        const delay = computeBackoffDelay(reconnectAttemptsRef.current, {
+            baseDelayMs,
+            maxDelayMs,
+            multiplier,
+            jitter,
+        })
+        reconnectAttemptsRef.current++
+        logger.debug(
+            `[CallChannel] Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current}/${maxAttempts})`,
+        )
+        reconnectTimerRef.current = setTimeout(() => {
+            reconnectTimerRef.current = null
+            if (mountedRef.current) {
+                logger.debug('[CallChannel] Attempting reconnection...')
+                connectRef.current?.()
+            }
+        }, delay)
+    }, [
+        baseDelayMs,
+        maxDelayMs,
+        multiplier,
+        jitter,
+        maxAttempts,
+        onReconnectFailed,
+        updateConnectionState,
+        handleError,
+    ])
+
+    // Queue message for delivery; sent now if the socket is open, otherwise on reconnect
     const sendRawMessage = useCallback(
         (message: ChannelMessage): boolean => {
-            if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-                return false
-            }
-            try {
-                wsRef.current.send(JSON.stringify(message))
-                return true
-            } catch (error) {
-                handleError(error instanceof Error ? error : new Error('Failed to send message'))
-                return false
-            }
+            outbox.enqueue(message)
+            return true
         },
-        [handleError],
+        [outbox],
     )
 
+    // Report the outcome of an action to ARI
+    useEffect(() => {
+        actionSettledRef.current = (action, result, durationMs) => {
+            if (!action.requiresResponse || !callId) return
+            if ('async' in result && result.async) {
+                // Async action - send acknowledgment, browser will send result later
+                asyncTracker.track(action, result.message)
+                sendRawMessage(createActionAckMessage(callId, action.actionId, 'received'))
+                return
+            }
+            const { success, data, error } = result as SyncActionResult
+            sendRawMessage(
+                createActionResultMessage(callId, action.actionId, success, {
+                    data,
+                    error,
+                    durationMs,
+                }),
+            )
+        }
+    }, [callId, sendRawMessage, asyncTracker])
+
+    // Settle the request a response (or error) message answers; false if it answers none
+    const settleRequest = useCallback((message: ChannelMessage): boolean => {
+        const { correlationId } = message
+        if (!correlationId || (message.type !== 'response' && message.type !== 'error')) {
+            return false
+        }
+        const pending = pendingRequestsRef.current.get(correlationId)
+        if (!pending) return false
+
+        pendingRequestsRef.current.delete(correlationId)
+        clearTimeout(pending.timer)
+        if (message.response?.success) {
+            pending.resolve(message.response.data)
+        } else {
+            pending.reject(
+                new ChannelRequestError(
+                    'rejected',
+                    message.response?.error ?? message.error?.message ?? 'Request failed',
+                    correlationId,
+                    message.error?.details,
+                ),
+            )
+        }
+        return true
+    }, [])
+
+    // Reject all pending requests (call changed or unmounted)
+    const cancelRequests = useCallback((reason: string) => {
+        for (const [correlationId, pending] of pendingRequestsRef.current) {
+            clearTimeout(pending.timer)
+            pending.reject(new ChannelRequestError('cancelled', reason, correlationId))
+        }
+        pendingRequestsRef.current.clear()
+    }, [])
+
     // Handle incoming messages
     const handleMessage = useCallback(
-        async (event: MessageEvent) => {
+        (event: MessageEvent) => {
             if (!mountedRef.current) return
 
+            // Malformed messages never reach the handlers
             let message: ChannelMessage
             try {
-                message = JSON.parse(event.data)
+                message = parseChannelMessage(event.data, validation)
             } catch (error) {
-                logger.error('[CallChannel] Failed to parse message:', error)
+                handleError(error instanceof Error ? error : new Error('Invalid channel message'))
                 return
             }
 
@@ -279,6 +654,9 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
             // Call general message handler
             onMessage?.(message)
 
+            // Responses to our requests go to the waiting promise
+            if (settleRequest(message)) return
+
             // Handle specific message types
             switch (message.type) {
                 case 'chat':
@@ -291,57 +669,18 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
 
                 case 'action':
                     if (message.action && onAction) {
-                        const actionId = message.action.actionId
-                        const startTime = Date.now()
-
-                        try {
-                            const result = await onAction(message.action)
-
-                            // Check if this is an async action
-                            if ('async' in result && result.async) {
-                                // Async action - send acknowledgment, browser will send result later
-                                if (message.action.requiresResponse && callId) {
-                                    const ackMessage = createActionAckMessage(
-                                        callId,
-                                        actionId,
-                                        'received',
-                                    )
-                                    sendRawMessage(ackMessage)
-                                }
-                            } else {
-                                // Sync action - send immediate result
-                                const durationMs = Date.now() - startTime
-                                const syncResult = result as SyncActionResult
-                                if (message.action.requiresResponse && callId) {
-                                    const resultMessage = createActionResultMessage(
-                                        callId,
-                                        actionId,
-                                        syncResult.success,
-                                        {
-                                            data: syncResult.data,
-                                            error: syncResult.error,
-                                            durationMs,
-                                        },
-                                    )
-                                    sendRawMessage(resultMessage)
-                                }
-                            }
-                        } catch (error) {
-                            // Send error result
-                            if (message.action.requiresResponse && callId) {
-                                const errorMessage = createActionResultMessage(
-                                    callId,
-                                    actionId,
-                                    false,
-                                    {
-                                        error:
-                                            error instanceof Error
-                                                ? error.message
-                                                : 'Action failed',
-                                    },
-                                )
-                                sendRawMessage(errorMessage)
-                            }
+                        executor.enqueue(message.action, onAction)
+                    }
+                    break
+
+                case 'action_cancel':
+                    if (message.actionCancel) {
+                        const { actionId, reason } = message.actionCancel
+                        if (!executor.cancel(actionId, reason)) {
+                            logger.debug(
+                                '[CallChannel] Cancel for an action not pending:',
+                                actionId,
+                            )
                         }
                     }
                     break
@@ -364,8 +703,14 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
                     }
                     break
 
+                case 'ack':
+                    if (message.ack) {
+                        outbox.acknowledge(message.ack.messageId)
+                    }
+                    break
+
                 case 'pong':
-                    // Keepalive response, nothing to do
+                    handlePong()
                     break
 
                 case 'error':
@@ -375,11 +720,23 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
                     break
             }
         },
-        [callId, onMessage, onChat, onStatus, onControl, onAction, sendRawMessage, handleError],
+        [
+            validation,
+            onMessage,
+            onChat,
+            onStatus,
+            onControl,
+            onAction,
+            executor,
+            settleRequest,
+            handlePong,
+            handleError,
+        ],
     )
 
     // Connect to WebSocket
     const connect = useCallback(() => {
+        const wsToken = wsTokenRef.current
         if (!callId || !wsToken) {
             logger.debug('[CallChannel] Missing callId or wsToken, cannot connect')
             return
@@ -390,18 +747,18 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
             clearTimeout(reconnectTimerRef.current)
             reconnectTimerRef.current = null
         }
-
-        // Close existing connection with proper close code
-        if (wsRef.current) {
-            wsRef.current.close(1000, 'New connection')
+        waitingForOnlineRef.current = false
+
+        // Close existing connection with proper close code. Its handlers are removed so
+        // its close event does not touch the new connection
+        const previous = wsRef.current
+        if (previous) {
+            outbox.detach()
+            previous.onopen = previous.onmessage = previous.onerror = previous.onclose = null
+            previous.close(1000, 'New connection')
             wsRef.current = null
         }
-
-        // Clear ping timer
-        if (pingTimerRef.current) {
-            clearInterval(pingTimerRef.current)
-            pingTimerRef.current = null
-        }
+        stopHeartbeat()
 
         updateConnectionState('connecting')
 
@@ -416,6 +773,8 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
                 logger.debug('[CallChannel] Connected')
                 updateConnectionState('connected')
                 setLastError(null)
+                reconnectAttemptsRef.current = 0
+                tokenRefreshedRef.current = false
 
                 // Request missed messages if reconnecting
                 if (lastMessageIdRef.current) {
@@ -423,13 +782,34 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
                     ws.send(JSON.stringify(reconnectMsg))
                 }
 
-                // Start ping interval
-                pingTimerRef.current = setInterval(() => {
-                    if (ws.readyState === WebSocket.OPEN) {
-                        const pingMsg = createPingMessage(callId)
-                        ws.send(JSON.stringify(pingMsg))
-                    }
-                }, pingInterval)
+                // Flush messages queued while disconnected
+                outbox.attach((data) => {
+                    // A closing socket drops data silently; keep the message for the next one
+                    if (ws.readyState !== WebSocket.OPEN) throw new Error('Channel is not open')
+                    ws.send(data)
+                })
+
+                // Ping regularly; one ping is outstanding at a time. A missed pong marks the
+                // channel stale and pings again, a second one means the socket is half-open
+                const sendPing = () => {
+                    if (ws.readyState !== WebSocket.OPEN || pongTimerRef.current) return
+                    pingSentAtRef.current = Date.now()
+                    ws.send(JSON.stringify(createPingMessage(callId)))
+                    pongTimerRef.current = setTimeout(() => {
+                        pongTimerRef.current = null
+                        if (!mountedRef.current || wsRef.current !== ws) return
+                        if (!staleRef.current) {
+                            logger.warn('[CallChannel] Pong overdue, channel is stale')
+                            staleRef.current = true
+                            updateConnectionState('stale')
+                            sendPing()
+                            return
+                        }
+                        logger.warn('[CallChannel] No pong after retry, reconnecting')
+                        connectRef.current?.()
+                    }, pongTimeout)
+                }
+                pingTimerRef.current = setInterval(sendPing, pingInterval)
             }
 
             ws.onmessage = handleMessage
@@ -438,15 +818,36 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
                 if (!mountedRef.current) return
                 logger.debug('[CallChannel] Disconnected:', event.code, event.reason)
 
-                // Clear ping timer
-                if (pingTimerRef.current) {
-                    clearInterval(pingTimerRef.current)
-                    pingTimerRef.current = null
+                // Keep outgoing messages queued until the next connection
+                if (wsRef.current === ws) {
+                    outbox.detach()
+                    stopHeartbeat()
                 }
 
                 // Reset text chat state on disconnect
                 setTextChatEnabled(false)
 
+                // Client errors (4001-4099) include an expired token: refresh it once and
+                // reconnect with the new one
+                const isClientError = event.code >= 4001 && event.code <= 4099
+                if (isClientError && onTokenExpired && !tokenRefreshedRef.current) {
+                    tokenRefreshedRef.current = true
+                    updateConnectionState('reconnecting')
+                    logger.debug('[CallChannel] Token rejected, refreshing')
+                    onTokenExpired()
+                        .catch(() => null)
+                        .then((token) => {
+                            if (!mountedRef.current) return
+                            if (!token) {
+                                updateConnectionState('disconnected')
+                                return
+                            }
+                            wsTokenRef.current = token
+                            connectRef.current?.()
+                        })
+                    return
+                }
+
                 // Handle reconnection - only reconnect on unexpected disconnections
                 // Don't reconnect for:
                 // - 1000: Normal closure (client initiated)
@@ -455,19 +856,13 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
                 const shouldReconnect =
                     autoReconnect &&
                     callId &&
-                    wsToken &&
+                    wsTokenRef.current &&
                     event.code !== 1000 &&
                     event.code !== 4000 &&
-                    !(event.code >= 4001 && event.code <= 4099)
+                    !isClientError
 
                 if (shouldReconnect) {
-                    updateConnectionState('reconnecting')
-                    reconnectTimerRef.current = setTimeout(() => {
-                        if (mountedRef.current) {
-                            logger.debug('[CallChannel] Attempting reconnection...')
-                            connectRef.current?.()
-                        }
-                    }, reconnectDelay)
+                    scheduleReconnect()
                 } else {
                     updateConnectionState('disconnected')
                 }
@@ -483,12 +878,15 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         }
     }, [
         callId,
-        wsToken,
         wsUrl,
         pingInterval,
+        pongTimeout,
         autoReconnect,
-        reconnectDelay,
+        onTokenExpired,
+        scheduleReconnect,
         handleMessage,
+        outbox,
+        stopHeartbeat,
         updateConnectionState,
         handleError,
     ])
@@ -498,6 +896,32 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         connectRef.current = connect
     }, [connect])
 
+    // Reconnect as soon as the network is back; hold off while the browser is offline
+    useEffect(() => {
+        if (typeof window === 'undefined') return
+
+        const handleOnline = () => {
+            const pending = waitingForOnlineRef.current || reconnectTimerRef.current !== null
+            if (!pending || !mountedRef.current) return
+            logger.debug('[CallChannel] Back online, reconnecting now')
+            connectRef.current?.()
+        }
+        const handleOffline = () => {
+            if (!reconnectTimerRef.current) return
+            logger.debug('[CallChannel] Offline, pausing reconnection')
+            clearTimeout(reconnectTimerRef.current)
+            reconnectTimerRef.current = null
+            waitingForOnlineRef.current = true
+        }
+
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('offline', handleOffline)
+        return () => {
+            window.removeEventListener('online', handleOnline)
+            window.removeEventListener('offline', handleOffline)
+        }
+    }, [])
+
     // Disconnect from WebSocket
     const disconnect = useCallback(() => {
         // Clear timers
@@ -505,12 +929,12 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
             clearTimeout(reconnectTimerRef.current)
             reconnectTimerRef.current = null
         }
-        if (pingTimerRef.current) {
-            clearInterval(pingTimerRef.current)
-            pingTimerRef.current = null
-        }
+        stopHeartbeat()
+        reconnectAttemptsRef.current = 0
+        waitingForOnlineRef.current = false
 
         // Close WebSocket with proper close code
+        outbox.detach()
         if (wsRef.current) {
             wsRef.current.close(1000, 'Client disconnect')
             wsRef.current = null
@@ -519,7 +943,7 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         updateConnectionState('disconnected')
         setTextChatEnabled(false)
         lastMessageIdRef.current = null
-    }, [updateConnectionState])
+    }, [outbox, stopHeartbeat, updateConnectionState])
 
     // Enable text chat mode
     const enableTextChat = useCallback(
@@ -556,30 +980,45 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
             options: { data?: unknown; error?: string; durationMs?: number } = {},
         ): boolean => {
             if (!callId) return false
-            const message = createAsyncActionResultMessage(callId, actionId, success, options)
+            const startedAt = asyncTracker.actions.find((a) => a.actionId === actionId)?.startedAt
+            const outcome = asyncTracker.finish(actionId)
+            if (outcome === 'duplicate') {
+                if (process.env.NODE_ENV !== 'production') {
+                    logger.warn(
+                        `[CallChannel] Action ${actionId} already sent its final result; ignoring this one`,
+                    )
+                }
+                return false
+            }
+            const message = createAsyncActionResultMessage(callId, actionId, success, {
+                ...options,
+                durationMs: options.durationMs ?? (startedAt ? Date.now() - startedAt : undefined),
+            })
             return sendRawMessage(message)
         },
-        [callId, sendRawMessage],
+        [callId, sendRawMessage, asyncTracker],
     )
 
     // Send action progress update
     const sendActionProgress = useCallback(
-        (actionId: string, status: 'received' | 'executing'): boolean => {
+        (actionId: string, status: 'received' | 'executing', progress?: string): boolean => {
             if (!callId) return false
+            asyncTracker.update(actionId, status, progress)
             const message = createActionAckMessage(callId, actionId, status)
             return sendRawMessage(message)
         },
-        [callId, sendRawMessage],
+        [callId, sendRawMessage, asyncTracker],
     )
 
     // Send action update via chat (alternative to action_result)
     const sendActionUpdateChat = useCallback(
         (actionId: string, content: string, metadata?: Record<string, unknown>): boolean => {
             if (!callId) return false
+            asyncTracker.update(actionId, undefined, content)
             const message = createActionUpdateChatMessage(callId, actionId, content, metadata)
             return sendRawMessage(message)
         },
-        [callId, sendRawMessage],
+        [callId, sendRawMessage, asyncTracker],
     )
 
     // Send a chat message with full control
@@ -647,6 +1086,16 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         [callId, sendRawMessage],
     )
 
+    // Send a status update
+    const sendStatus = useCallback(
+        (state: StatusState, metadata?: Record<string, unknown>): boolean => {
+            if (!callId) return false
+            const message = createStatusMessage(callId, 'to_ari', state, metadata)
+            return sendRawMessage(message)
+        },
+        [callId, sendRawMessage],
+    )
+
     // Send a custom message
     const sendMessage = useCallback(
         (partial: Partial<ChannelMessage>): boolean => {
@@ -666,18 +1115,106 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         [callId, sendRawMessage],
     )
 
+    // Send a request and wait for the response with the same correlationId
+    const request = useCallback(
+        <T = unknown, K extends keyof ChannelPayloads = keyof ChannelPayloads>(
+            type: K,
+            payload: ChannelPayloads[K],
+            { timeoutMs = requestTimeout, schema }: ChannelRequestOptions<T> = {},
+        ): Promise<T> => {
+            if (!callId) {
+                return Promise.reject(
+                    new ChannelRequestError('not_connected', 'No call to send the request for'),
+                )
+            }
+
+            const message = createRequestMessage(callId, type, payload)
+            const correlationId = message.correlationId as string
+            return new Promise<T>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    pendingRequestsRef.current.delete(correlationId)
+                    reject(
+                        new ChannelRequestError(
+                            'timeout',
+                            `No response to ${type} request within ${timeoutMs}ms`,
+                            correlationId,
+                        ),
+                    )
+                }, timeoutMs)
+
+                pendingRequestsRef.current.set(correlationId, {
+                    resolve: (data) => {
+                        if (!schema) {
+                            resolve(data as T)
+                            return
+                        }
+                        const result = schema.safeParse(data)
+                        if (result.success) {
+                            resolve(result.data)
+                        } else {
+                            reject(
+                                new ChannelRequestError(
+                                    'invalid_response',
+                                    `Invalid response to ${type} request`,
+                                    correlationId,
+                                    result.error.issues,
+                                ),
+                            )
+                        }
+                    },
+                    reject,
+                    timer,
+                })
+                sendRawMessage(message)
+            })
+        },
+        [callId, requestTimeout, sendRawMessage],
+    )
+
+    // Get the AI's conversation context
+    const requestContext = useCallback(
+        ({ timeoutMs }: { timeoutMs?: number } = {}): Promise<ConversationContext> =>
+            request<ConversationContext, 'control'>(
+                'control',
+                { command: 'request_context' },
+                { timeoutMs, schema: conversationContextSchema },
+            ),
+        [request],
+    )
+
+    // Clear the AI's conversation context
+    const clearContext = useCallback(
+        async ({ timeoutMs }: { timeoutMs?: number } = {}): Promise<void> => {
+            await request('control', { command: 'clear_context' }, { timeoutMs })
+        },
+        [request],
+    )
+
     // Clear message history
     const clearMessages = useCallback(() => {
         setMessages([])
     }, [])
 
+    // Queue failed outgoing messages again
+    const retryFailed = useCallback(() => {
+        outbox.retryFailed()
+    }, [outbox])
+
+    // Cancel a pending action; its failed result is reported like a timeout
+    const cancelAction = useCallback(
+        (actionId: string, reason?: string) => executor.cancel(actionId, reason),
+        [executor],
+    )
+
     // Track mounted state
     useEffect(() => {
         mountedRef.current = true
         return () => {
             mountedRef.current = false
+            cancelRequests('Call channel unmounted')
+            executor.clear()
         }
-    }, [])
+    }, [cancelRequests, executor])
 
     // Auto-connect when callId and wsToken are available
     // Using refs to avoid dependency on connect function which changes frequently
@@ -686,22 +1223,40 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
     // Track previous callId to detect call changes
     const prevCallIdRef = useRef<string | null>(null)
 
+    // A new token does not interrupt an open connection; it is used on the next connect
+    useEffect(() => {
+        wsTokenRef.current = wsToken
+    }, [wsToken])
+    const hasWsToken = Boolean(wsToken)
+
     useEffect(() => {
         // Detect if this is a new call (callId changed)
         const isNewCall =
             callId && prevCallIdRef.current !== null && prevCallIdRef.current !== callId
+        const isCallEnded = !callId && prevCallIdRef.current !== null
         prevCallIdRef.current = callId
 
+        if (isCallEnded) {
+            // Actions of the ended call must not keep running or report results
+            executor.clear()
+            cancelRequests('Call ended')
+        }
+
         if (isNewCall) {
             // Clear messages when starting a new call
             startTransition(() => {
                 setMessages([])
+                setChannelLatencyMs(null)
             })
             lastMessageIdRef.current = null
+            // Messages for the previous call are no longer deliverable
+            outbox.clear()
+            executor.clear()
+            cancelRequests('Call changed')
             logger.debug('[CallChannel] New call detected, clearing messages')
         }
 
-        if (callId && wsToken) {
+        if (callId && hasWsToken) {
             // Only connect if not already connected or connecting
             if (!wsRef.current || wsRef.current.readyState === WebSocket.CLOSED) {
                 connectRef.current?.()
@@ -709,28 +1264,46 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         }
 
         return () => {
-            // Cleanup on unmount or when callId/wsToken changes
+            // Cleanup on unmount, when callId changes or the token is cleared
             if (reconnectTimerRef.current) {
                 clearTimeout(reconnectTimerRef.current)
                 reconnectTimerRef.current = null
             }
-            if (pingTimerRef.current) {
-                clearInterval(pingTimerRef.current)
-                pingTimerRef.current = null
+            stopHeartbeat()
+            reconnectAttemptsRef.current = 0
+            waitingForOnlineRef.current = false
+            tokenRefreshedRef.current = false
+            // Async actions still open cannot finish any more: fail them here, and tell ARI
+            // if the socket is still open. They are not queued, the next call clears the outbox
+            const ws = wsRef.current
+            for (const entry of asyncTracker.takeAll()) {
+                if (!callId || ws?.readyState !== WebSocket.OPEN) continue
+                const final = createAsyncActionResultMessage(callId, entry.actionId, false, {
+                    error: 'Call ended',
+                    durationMs: Date.now() - entry.startedAt,
+                })
+                ws.send(JSON.stringify(final))
             }
+            outbox.detach()
             if (wsRef.current) {
                 // Close with proper code to avoid 1005
                 wsRef.current.close(1000, 'Call ended')
                 wsRef.current = null
             }
         }
-    }, [callId, wsToken]) // Intentionally not including connect to avoid loops
+    }, [callId, hasWsToken, outbox, executor, asyncTracker, stopHeartbeat, cancelRequests]) // Intentionally not including connect to avoid loops
 
     return {
         connectionState,
-        connected: connectionState === 'connected',
+        connected: connectionState === 'connected' || connectionState === 'stale',
+        channelLatencyMs,
         textChatEnabled,
         messages,
+        pendingCount: outboxCounts.pending,
+        failedCount: outboxCounts.failed,
+        queuedActions: actionCounts.queued,
+        runningActions: actionCounts.running,
+        asyncActions,
         sendChat,
         sendContextUpdate,
         sendTextChat,
@@ -740,10 +1313,16 @@ export function useCallChannel(options: UseCallChannelOptions): UseCallChannelRe
         sendAsyncActionResult,
         sendActionProgress,
         sendActionUpdateChat,
+        sendStatus,
         sendMessage,
+        request,
+        requestContext,
+        clearContext,
         connect,
         disconnect,
         clearMessages,
+        retryFailed,
+        cancelAction,
         lastError,
     }
 }
@@ -33,6 +33,7 @@
  * - `action_result`: Browser response to action → ALWAYS goes to AI context
  * - `chat`: Text message (only processed by AI when text_chat enabled)
  * - `control`: Session control (enable/disable text chat, response mode)
+ * - `response`: Answer to a browser request, matched by `correlationId`
  */
 
 import { z } from 'zod'
@@ -45,9 +46,12 @@ export type ChannelMessageType =
     | 'chat' // Text messages (bidirectional)
     | 'action' // AI requests browser to do something
     | 'action_result' // Browser reports action completion → AI context
+    | 'action_cancel' // AI withdraws an action it requested
     | 'status' // Call/connection status updates
     | 'control' // Session control (text chat enable/disable)
     | 'reconnect' // Reconnection handshake
+    | 'ack' // Delivery acknowledgement of a browser message
+    | 'response' // Answer to a browser request (same correlationId)
     | 'ping' // Keepalive
     | 'pong' // Keepalive response
     | 'error' // Error notification
@@ -231,6 +235,17 @@ export interface ActionResultPayload {
     isFinal?: boolean
 }
 
+/**
+ * Action cancellation payload (ARI -> Browser)
+ * Withdraws a queued or running action; the browser answers with a failed result
+ */
+export interface ActionCancelPayload {
+    /** actionId of the action to cancel */
+    actionId: string
+    /** Why the action is no longer wanted */
+    reason?: string
+}
+
 /**
  * Status update payload (bidirectional)
  */
@@ -249,6 +264,15 @@ export interface ReconnectPayload {
     sessionData?: Record<string, unknown>
 }
 
+/**
+ * Delivery acknowledgement payload (TelAPI -> Browser)
+ * Confirms that a message sent by the browser was received
+ */
+export interface AckPayload {
+    /** messageId of the acknowledged message */
+    messageId: string
+}
+
 /**
  * Error payload
  */
@@ -258,6 +282,51 @@ export interface ErrorPayload {
     details?: unknown
 }
 
+/**
+ * Response payload (ARI -> Browser)
+ * Answer to a request such as `request_context`; an `error` message with the same
+ * correlationId is a failed answer too
+ */
+export interface ResponsePayload {
+    success: boolean
+    /** Result data, e.g. a ConversationContext for `request_context` */
+    data?: unknown
+    /** Error message if !success */
+    error?: string
+}
+
+/**
+ * Conversation context returned for `request_context`
+ */
+export interface ConversationContext {
+    /** Messages in the AI context, oldest first */
+    messages: Array<{
+        role: MessageRole
+        content: string
+        timestamp?: number
+    }>
+    /** Summary of earlier conversation that no longer fits in `messages` */
+    summary?: string
+    metadata?: Record<string, unknown>
+}
+
+/**
+ * Payload of each message type. It is sent in the message field of the same name,
+ * camelCased for `action_result` (`actionResult`) and `action_cancel` (`actionCancel`)
+ */
+export interface ChannelPayloads {
+    chat: ChatPayload
+    action: ActionPayload
+    action_result: ActionResultPayload
+    action_cancel: ActionCancelPayload
+    status: StatusPayload
+    control: ControlPayload
+    reconnect: ReconnectPayload
+    ack: AckPayload
+    response: ResponsePayload
+    error: ErrorPayload
+}
+
 // =============================================================================
 // Main Message Interface
 // =============================================================================
@@ -272,14 +341,19 @@ export interface ChannelMessage {
     messageId: string
     timestamp: number
     direction: MessageDirection
+    /** Set on a request and echoed by its response */
+    correlationId?: string
 
     // Optional payloads based on type
     chat?: ChatPayload
     action?: ActionPayload
     actionResult?: ActionResultPayload
+    actionCancel?: ActionCancelPayload
     status?: StatusPayload
     control?: ControlPayload
     reconnect?: ReconnectPayload
+    ack?: AckPayload
+    response?: ResponsePayload
     error?: ErrorPayload
 }
 
@@ -330,6 +404,11 @@ export const actionResultPayloadSchema = z.object({
     isFinal: z.boolean().optional(),
 })
 
+export const actionCancelPayloadSchema = z.object({
+    actionId: z.string().uuid(),
+    reason: z.string().max(1000).optional(),
+})
+
 export const statusPayloadSchema = z.object({
     state: z.enum([
         'connected',
@@ -350,6 +429,28 @@ export const reconnectPayloadSchema = z.object({
     sessionData: z.record(z.string(), z.unknown()).optional(),
 })
 
+export const ackPayloadSchema = z.object({
+    messageId: z.string().uuid(),
+})
+
+export const responsePayloadSchema = z.object({
+    success: z.boolean(),
+    data: z.unknown().optional(),
+    error: z.string().max(1000).optional(),
+})
+
+export const conversationContextSchema = z.object({
+    messages: z.array(
+        z.object({
+            role: z.enum(['user', 'assistant', 'system']),
+            content: z.string(),
+            timestamp: z.number().int().positive().optional(),
+        }),
+    ),
+    summary: z.string().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+})
+
 export const errorPayloadSchema = z.object({
     code: z.string().min(1).max(50),
     message: z.string().min(1).max(1000),
@@ -361,9 +462,12 @@ export const channelMessageSchema = z.object({
         'chat',
         'action',
         'action_result',
+        'action_cancel',
         'status',
         'control',
         'reconnect',
+        'ack',
+        'response',
         'ping',
         'pong',
         'error',
@@ -372,15 +476,58 @@ export const channelMessageSchema = z.object({
     messageId: z.string().uuid(),
     timestamp: z.number().int().positive(),
     direction: z.enum(['to_browser', 'to_ari']),
+    correlationId: z.string().uuid().optional(),
     chat: chatPayloadSchema.optional(),
     action: actionPayloadSchema.optional(),
     actionResult: actionResultPayloadSchema.optional(),
+    actionCancel: actionCancelPayloadSchema.optional(),
     status: statusPayloadSchema.optional(),
     control: controlPayloadSchema.optional(),
     reconnect: reconnectPayloadSchema.optional(),
+    ack: ackPayloadSchema.optional(),
+    response: responsePayloadSchema.optional(),
     error: errorPayloadSchema.optional(),
 })
 
+// Envelope fields shared by every message
+const channelEnvelopeSchema = channelMessageSchema.pick({
+    callId: true,
+    messageId: true,
+    timestamp: true,
+    direction: true,
+    correlationId: true,
+})
+
+/**
+ * Schema for messages received from the channel, discriminated by `type`:
+ * the payload matching the type is required (e.g. `action` for an `action` message)
+ */
+export const inboundChannelMessageSchema = z.discriminatedUnion('type', [
+    channelEnvelopeSchema.extend({ type: z.literal('chat'), chat: chatPayloadSchema }),
+    channelEnvelopeSchema.extend({ type: z.literal('action'), action: actionPayloadSchema }),
+    channelEnvelopeSchema.extend({
+        type: z.literal('action_result'),
+        actionResult: actionResultPayloadSchema,
+    }),
+    channelEnvelopeSchema.extend({
+        type: z.literal('action_cancel'),
+        actionCancel: actionCancelPayloadSchema,
+    }),
+    channelEnvelopeSchema.extend({ type: z.literal('status'), status: statusPayloadSchema }),
+    channelEnvelopeSchema.extend({ type: z.literal('control'), control: controlPayloadSchema }),
+    channelEnvelopeSchema.extend({
+        type: z.literal('reconnect'),
+        reconnect: reconnectPayloadSchema,
+    }),
+    channelEnvelopeSchema.extend({ type: z.literal('ack'), ack: ackPayloadSchema }),
+    channelEnvelopeSchema.extend({
+        type: z.literal('response'),
+        response: responsePayloadSchema,
+    }),
+    channelEnvelopeSchema.extend({ type: z.literal('error'), error: errorPayloadSchema }),
+    channelEnvelopeSchema.extend({ type: z.enum(['ping', 'pong']) }),
+])
+
 // =============================================================================
 // WebSocket Token Types
 // =============================================================================
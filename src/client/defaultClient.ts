@@ -0,0 +1,13 @@
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+import { webrtcRefs } from '../stores/webrtcRefsStore'
+
+import { TelphiClient } from './telphiClient'
+
+/**
+ * The client behind `<WebRTCPhone>` and the hooks. It shares `useWebRTCPhoneStore` and
+ * `webrtcRefs`, so existing store selectors keep working.
+ */
+export const defaultTelphiClient = new TelphiClient({
+    store: useWebRTCPhoneStore,
+    refs: webrtcRefs,
+})
@@ -0,0 +1,51 @@
+import { logger } from '../utils'
+
+type Listener<T> = (payload: T) => void
+
+/**
+ * Minimal typed event emitter. `Events` maps event names to their payload type.
+ */
+export class TypedEventEmitter<Events extends object> {
+    private listeners = new Map<keyof Events, Set<Listener<never>>>()
+
+    /** Subscribe to an event. Returns a function that unsubscribes */
+    on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        let set = this.listeners.get(event)
+        if (!set) {
+            set = new Set()
+            this.listeners.set(event, set)
+        }
+        set.add(listener as Listener<never>)
+        return () => this.off(event, listener)
+    }
+
+    /** Subscribe to the next occurrence of an event only */
+    once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        const off = this.on(event, (payload) => {
+            off()
+            listener(payload)
+        })
+        return off
+    }
+
+    off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+        this.listeners.get(event)?.delete(listener as Listener<never>)
+    }
+
+    /** Remove all listeners, or those of one event */
+    removeAllListeners(event?: keyof Events): void {
+        if (event === undefined) this.listeners.clear()
+        else this.listeners.delete(event)
+    }
+
+    protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        this.listeners.get(event)?.forEach((listener) => {
+            // A throwing listener must not break the SDK or the other listeners
+            try {
+                ;(listener as Listener<Events[K]>)(payload)
+            } catch (e) {
+                logger.error(`Listener for "${String(event)}" failed:`, e)
+            }
+        })
+    }
+}
@@ -0,0 +1,3 @@
+export { TypedEventEmitter } from './eventEmitter'
+export { TelphiClient, type TelphiClientEvents, type TelphiClientOptions } from './telphiClient'
+export { defaultTelphiClient } from './defaultClient'
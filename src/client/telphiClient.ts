@@ -0,0 +1,2149 @@
+import {
+    createWebRTCPhoneStore,
+    type IncomingCallInfo,
+    type SignalingState,
+    type WebRTCPhoneConnectionState,
+    type WebRTCPhoneStoreApi,
+} from '../stores/webrtcPhoneStore'
+import { createWebRTCRefs, type WebRTCRefs } from '../stores/webrtcRefsStore'
+import type {
+    CallEndedInfo,
+    CallInfo,
+    CallTokenResponse,
+    InitiateCallParams,
+    WebRTCConfig,
+    WsTokenRefreshResponse,
+} from '../types'
+import {
+    applySinkId,
+    buildDialTarget,
+    buildRegisterRequest,
+    clearCallState,
+    computeBackoffDelay,
+    createLocalAudioPipeline,
+    createRemoteAudioPipeline,
+    enumerateAudioDevices,
+    getMicrophoneStream,
+    getSdpDirection,
+    ICE_DISCONNECTED_GRACE_MS,
+    ICE_RESTART_BACKOFF,
+    ICE_RESTART_MAX_ATTEMPTS,
+    isCallInProgressPhase,
+    isCallingPhase,
+    isRemoteHoldDirection,
+    JANUS_RECONNECT_BACKOFF,
+    JANUS_RECONNECT_MAX_ATTEMPTS,
+    loadCallState,
+    logDebug,
+    logger,
+    MAX_REGISTER_RETRIES,
+    NETWORK_CHANGE_RESTART_DELAY_MS,
+    normalizePhoneNumber,
+    openJanusTransport,
+    parseCallStats,
+    playDtmfTone,
+    randomString,
+    REGISTER_RETRY_DELAY_MS,
+    saveCallState,
+    setAudioCodecPreferences,
+    setStreamMuted,
+    SipRegistrationError,
+    WS_TOKEN_REFRESH_MARGIN_MS,
+    type AudioDeviceInfo,
+    type CallPhase,
+    type CallStats,
+    type JanusTransport,
+    type JanusTransportOptions,
+} from '../utils'
+
+import { TypedEventEmitter } from './eventEmitter'
+
+type JanusMessage = Record<string, unknown>
+type Jsep = { type: string; sdp?: string }
+
+// Janus requests addressed to the session rather than to the plugin handle
+const SESSION_REQUESTS = new Set(['create', 'claim', 'keepalive', 'attach', 'destroy'])
+
+// Network Information API (Chromium only), missing from the DOM typings
+type NavigatorWithConnection = Navigator & { connection?: EventTarget }
+
+/**
+ * Events emitted by TelphiClient, keyed by name
+ */
+export interface TelphiClientEvents {
+    /** The call lifecycle phase changed (see `CallPhase`) */
+    callStateChanged: { phase: CallPhase; previous: CallPhase; reason?: string }
+    /** SIP registration succeeded */
+    registered: { telproDomain: string | null }
+    /** An outbound call started dialing, or an inbound call started ringing */
+    callStarted: CallInfo
+    /** The call was answered */
+    callAnswered: CallInfo
+    /** The call is over: hung up or declined on either side, or failed */
+    callEnded: CallEndedInfo
+    /** An inbound call is ringing; answer with `acceptCall()` or `declineCall()` */
+    incomingCall: IncomingCallInfo
+    /** Remote audio arrived. It is also played through the client's audio element */
+    remoteTrack: { track: MediaStreamTrack; stream: MediaStream }
+    /** Human-readable status line (e.g. `Connected`, `In Call`) */
+    statusChanged: { status: string }
+    muteChanged: { muted: boolean }
+    signalingStateChanged: { state: SignalingState }
+    /** New call quality sample (see `watchCallStats`) */
+    callStats: CallStats
+    /** Something failed. The call phase and status show what it led to */
+    error: { error: Error; context: string }
+}
+
+/**
+ * Options for `new TelphiClient()`
+ */
+export interface TelphiClientOptions {
+    /** SDK configuration. Can be changed later with `configure()` */
+    config?: WebRTCConfig
+    /** Element that plays the remote audio. Default: a detached `<audio>` element */
+    audioElement?: HTMLAudioElement
+    /** Store to use instead of a new one (the default client shares the React store) */
+    store?: WebRTCPhoneStoreApi
+    /** Refs to use instead of new ones (the default client shares `webrtcRefs`) */
+    refs?: WebRTCRefs
+}
+
+const errorMessage = (e: unknown, fallback = 'Unknown') =>
+    e instanceof Error ? e.message : fallback
+const toError = (e: unknown) => (e instanceof Error ? e : new Error(String(e)))
+const isIceConnected = (pc: RTCPeerConnection) =>
+    pc.iceConnectionState === 'connected' || pc.iceConnectionState === 'completed'
+
+/**
+ * Framework-agnostic phone client. Each instance owns its Janus session, peer connection,
+ * media and state, so several can run side by side.
+ *
+ * State lives in `store` (a vanilla zustand store with the same shape as
+ * `useWebRTCPhoneStore`); changes are also emitted as events. The React hooks and
+ * `<WebRTCPhone>` are thin adapters over the default instance.
+ *
+ * @example
+ * const client = new TelphiClient({ config: { apiDomain: 'api.example.com', apiKey } })
+ * client.on('callStateChanged', ({ phase }) => console.log(phase))
+ * await client.call({ endpointId: 'ep_1', phoneNumber: '+14155550100' })
+ * client.sendDtmf('1')
+ * await client.hangup()
+ */
+export class TelphiClient extends TypedEventEmitter<TelphiClientEvents> {
+    readonly store: WebRTCPhoneStoreApi
+    readonly refs: WebRTCRefs
+    private readonly unsubscribers: Array<() => void>
+    private stopNetworkWatch: (() => void) | null = null
+    private persistTimer: ReturnType<typeof setInterval> | null = null
+    private wsTokenRefreshTimer: ReturnType<typeof setTimeout> | null = null
+    private wsTokenRefresh: Promise<string | null> | null = null
+    // Call reported by callStarted, until callEnded
+    private currentCall: CallInfo | null = null
+    private answeredAt: number | null = null
+
+    constructor({ config, audioElement, store, refs }: TelphiClientOptions = {}) {
+        super()
+        this.refs = refs ?? createWebRTCRefs()
+        this.store = store ?? createWebRTCPhoneStore(this.refs)
+        if (audioElement) this.refs.remoteAudioRef.current = audioElement
+        if (config) this.configure(config)
+        this.unsubscribers = this.watchStore()
+    }
+
+    /** Set the SDK configuration */
+    configure = (config: WebRTCConfig) => {
+        const { setWebRTCConfig, setCallData } = this.store.getState()
+        setWebRTCConfig(config)
+        setCallData(config)
+    }
+
+    /** Hang up, close the Janus session and remove all listeners */
+    destroy = async () => {
+        await this.disconnect()
+        this.cancelWsTokenRefresh()
+        this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+        this.removeAllListeners()
+    }
+
+    // Re-emit store changes as events and run the per-call watchers
+    private watchStore() {
+        const { subscribe } = this.store
+        return [
+            subscribe(
+                (state) => state.connection.callPhase,
+                (phase, previous) => {
+                    const { phaseHistory } = this.store.getState().connection
+                    const reason = phaseHistory.at(-1)?.reason
+                    this.emit('callStateChanged', { phase, previous, reason })
+                    this.trackCallLifecycle(phase, previous, reason)
+                },
+            ),
+            subscribe(
+                (state) => state.connection.status,
+                (status) => this.emit('statusChanged', { status }),
+            ),
+            subscribe(
+                (state) => state.connection.muted,
+                (muted) => this.emit('muteChanged', { muted }),
+            ),
+            subscribe(
+                (state) => state.connection.signalingState,
+                (signalingState) => this.emit('signalingStateChanged', { state: signalingState }),
+            ),
+            subscribe(
+                (state) => state.incomingCall,
+                (incomingCall) => {
+                    if (incomingCall) this.emit('incomingCall', incomingCall)
+                },
+            ),
+            subscribe(
+                (state) => state.callStats,
+                (callStats) => {
+                    if (callStats) this.emit('callStats', callStats)
+                },
+            ),
+            subscribe(
+                (state) => state.connection.inCall,
+                (inCall) => {
+                    this.stopNetworkWatch?.()
+                    this.stopNetworkWatch = inCall ? this.watchNetwork() : null
+                },
+            ),
+            subscribe(
+                (state) => state.connection.inCall || state.connection.calling,
+                (active) => this.persistWhileActive(active),
+            ),
+            subscribe(
+                (state) => state.callData.currentWsToken,
+                (wsToken) => {
+                    if (!wsToken) this.cancelWsTokenRefresh()
+                },
+            ),
+        ]
+    }
+
+    private fail(context: string, error: unknown) {
+        this.emit('error', { error: toError(error), context })
+    }
+
+    // Derive the registered / callStarted / callAnswered / callEnded events from phase changes
+    private trackCallLifecycle(phase: CallPhase, previous: CallPhase, reason?: string) {
+        const { callData, incomingCall } = this.store.getState()
+        if (phase === 'ready' && (previous === 'connecting' || previous === 'registering')) {
+            this.emit('registered', { telproDomain: callData.telproDomain })
+            return
+        }
+
+        if (!this.currentCall) {
+            if (!isCallingPhase(phase)) return
+            this.currentCall =
+                phase === 'ringing' && incomingCall
+                    ? {
+                          direction: 'inbound',
+                          callId: incomingCall.sipCallId ?? null,
+                          remote: incomingCall.callerUri,
+                          startedAt: Date.now(),
+                      }
+                    : {
+                          direction: 'outbound',
+                          callId: callData.currentCallId,
+                          remote: callData.phoneNumber || callData.endpointId,
+                          startedAt: Date.now(),
+                      }
+            this.answeredAt = null
+            this.emit('callStarted', { ...this.currentCall })
+            return
+        }
+
+        // The call token of an outbound call may arrive after dialing started
+        const call = this.currentCall
+        if (call.direction === 'outbound' && callData.currentCallId) {
+            call.callId = callData.currentCallId
+        }
+
+        if (phase === 'active' && isCallingPhase(previous)) {
+            this.answeredAt = Date.now()
+            this.emit('callAnswered', { ...call })
+        } else if (!isCallInProgressPhase(phase)) {
+            this.currentCall = null
+            this.emit('callEnded', {
+                ...call,
+                reason: reason ?? phase,
+                failed: phase === 'failed',
+                durationMs: this.answeredAt ? Date.now() - this.answeredAt : 0,
+            })
+        }
+    }
+
+    // =========================================================================
+    // Janus Requests
+    // =========================================================================
+
+    /**
+     * Send a request to Janus and resolve with its response (`ack`, `success`, ...).
+     * Session and handle ids are added automatically.
+     */
+    sendMessage = (msg: JanusMessage): Promise<JanusMessage> => {
+        const {
+            transportRef,
+            sessionIdRef,
+            handleIdRef,
+            transactionsRef,
+            inFlightRef,
+            janusReconnectingRef,
+        } = this.refs
+
+        return new Promise((resolve, reject) => {
+            const transport = transportRef.current
+            // While the connection is being re-established, queue instead of failing
+            if (!transport?.connected && !janusReconnectingRef.current) {
+                reject(new Error('Janus not connected'))
+                return
+            }
+
+            const transaction = randomString(12)
+            const message: JanusMessage = {
+                ...msg,
+                transaction,
+            }
+            if (sessionIdRef.current) message.session_id = sessionIdRef.current
+            if (handleIdRef.current && !SESSION_REQUESTS.has(String(msg.janus))) {
+                message.handle_id = handleIdRef.current
+            }
+
+            const timeout = setTimeout(() => {
+                transactionsRef.current.delete(transaction)
+                inFlightRef.current.delete(transaction)
+                reject(new Error('Transaction timeout'))
+            }, 10000)
+
+            transactionsRef.current.set(transaction, (response) => {
+                clearTimeout(timeout)
+                transactionsRef.current.delete(transaction)
+                inFlightRef.current.delete(transaction)
+                if (response.janus === 'error') {
+                    const err = response.error as Record<string, unknown> | undefined
+                    reject(new Error(String(err?.reason || err || 'Janus error')))
+                } else {
+                    resolve(response)
+                }
+            })
+            // A stale claim must not be replayed on a later connection
+            if (msg.janus !== 'claim') inFlightRef.current.set(transaction, message)
+
+            if (!transport?.connected) {
+                logDebug('Queued until Janus reconnects:', message)
+                return
+            }
+            logDebug('Sending:', message)
+            transport.send(message)
+        })
+    }
+
+    // Trickle a local ICE candidate to Janus
+    private sendTrickle(candidate: RTCIceCandidate | null) {
+        const { transportRef, sessionIdRef, handleIdRef } = this.refs
+        transportRef.current?.send({
+            janus: 'trickle',
+            session_id: sessionIdRef.current,
+            handle_id: handleIdRef.current,
+            candidate: candidate
+                ? {
+                      candidate: candidate.candidate,
+                      sdpMid: candidate.sdpMid,
+                      sdpMLineIndex: candidate.sdpMLineIndex,
+                  }
+                : { completed: true },
+            transaction: randomString(12),
+        })
+    }
+
+    // Handle incoming Janus message
+    private handleMessage = (msg: JanusMessage) => {
+        const { transactionsRef, handleIdRef } = this.refs
+        logDebug('Received:', msg)
+
+        // Handle transaction responses
+        const transaction = msg.transaction as string
+        if (transaction && transactionsRef.current.has(transaction)) {
+            const handler = transactionsRef.current.get(transaction)
+            if (handler) handler(msg)
+            return
+        }
+
+        // Handle async events
+        switch (msg.janus as string) {
+            case 'event': {
+                const plugindata = msg.plugindata as JanusMessage | undefined
+                if (plugindata?.data) {
+                    this.handleSipEvent(plugindata.data as JanusMessage, msg.jsep as Jsep)
+                }
+                break
+            }
+            case 'trickle':
+                // Remote ICE candidate from Janus
+                this.handleRemoteTrickle(msg.candidate as JanusMessage | null)
+                break
+            case 'webrtcup':
+                logDebug('WebRTC connection up')
+                break
+            case 'hangup':
+                logDebug('Hangup')
+                this.hangup('janus hangup')
+                break
+            case 'detached':
+                handleIdRef.current = null
+                break
+        }
+    }
+
+    // =========================================================================
+    // Janus Connection
+    // =========================================================================
+
+    /**
+     * Connect to Janus, create a session, attach the SIP plugin and register.
+     * Does nothing while already connecting or connected. Failures are reported with
+     * the `error` event and the `failed` phase.
+     *
+     * @param telproDomain TelPro domain to register with. Default: `config.telproDomain`
+     */
+    connect = async (telproDomain?: string) => {
+        const { sessionIdRef, handleIdRef, initializingRef, initializedRef } = this.refs
+        const { setStatus, transitionCallPhase, setSignalingState, callData, webrtcConfig } =
+            this.store.getState()
+
+        // Prevent multiple initializations (React StrictMode causes double-mount)
+        if (initializingRef.current || initializedRef.current) {
+            logDebug('Already initializing/initialized, skipping')
+            return
+        }
+        initializingRef.current = true
+
+        try {
+            // Use provided telproDomain or fall back to state
+            const domainToUse = telproDomain || callData.telproDomain
+            if (!domainToUse) {
+                throw new Error('TelPro domain is required to initialize Janus')
+            }
+
+            const janusServerUrl = callData.janusUrl || `wss://${domainToUse}`
+            const { janusTransport = 'auto', janusHttpUrl } = webrtcConfig
+            transitionCallPhase('connecting')
+            setSignalingState('connecting')
+            setStatus('Connecting...')
+            logDebug('Connecting to:', janusServerUrl)
+
+            // Reconnects (and reclaims the session) on its own if the connection drops later
+            await this.openTransport({
+                mode: janusTransport,
+                websocketUrl: janusServerUrl,
+                httpUrl: janusHttpUrl || `https://${domainToUse}/janus`,
+            })
+            setSignalingState('connected')
+
+            // Create session
+            setStatus('Creating session...')
+            const createResp = await this.sendMessage({ janus: 'create' })
+            sessionIdRef.current = (createResp.data as JanusMessage)?.id as number
+            logDebug('Session:', sessionIdRef.current)
+
+            // Start keepalive
+            this.startKeepAlive()
+
+            // Attach SIP plugin
+            setStatus('Attaching SIP plugin...')
+            const attachResp = await this.sendMessage({
+                janus: 'attach',
+                plugin: 'janus.plugin.sip',
+            })
+            handleIdRef.current = (attachResp.data as JanusMessage)?.id as number
+            logDebug('Handle:', handleIdRef.current)
+
+            // Register as guest, or with the configured SIP credentials
+            transitionCallPhase('registering')
+            setStatus('Registering...')
+            await this.registerSip(domainToUse)
+
+            initializedRef.current = true
+            initializingRef.current = false
+        } catch (error) {
+            logger.error('Init failed:', error)
+            setSignalingState('disconnected')
+            transitionCallPhase('failed', errorMessage(error, 'Init failed'), {
+                registrationLost: true,
+            })
+            setStatus(`Failed: ${errorMessage(error)}`)
+            initializingRef.current = false
+            this.fail('connect', error)
+        }
+    }
+
+    /** Hang up any call and close the Janus session */
+    disconnect = async () => {
+        const { connection, setInitialized } = this.store.getState()
+        if (connection.inCall || connection.calling) await this.hangup()
+        this.cleanupJanus()
+        setInitialized(false)
+    }
+
+    // Tear down the Janus connection and everything that depends on it
+    cleanupJanus = () => {
+        const {
+            transportRef,
+            sessionIdRef,
+            handleIdRef,
+            transactionsRef,
+            initializingRef,
+            initializedRef,
+            registerRetryRef,
+            registerAttemptsRef,
+            inFlightRef,
+            janusReconnectingRef,
+            janusReconnectAttemptRef,
+            janusReconnectTimerRef,
+        } = this.refs
+        const { transitionCallPhase, setSignalingState } = this.store.getState()
+
+        this.cleanupCall()
+        this.stopKeepAlive()
+        if (registerRetryRef.current) {
+            clearTimeout(registerRetryRef.current)
+            registerRetryRef.current = null
+        }
+        registerAttemptsRef.current = 0
+        if (janusReconnectTimerRef.current) {
+            clearTimeout(janusReconnectTimerRef.current)
+            janusReconnectTimerRef.current = null
+        }
+        janusReconnectingRef.current = false
+        janusReconnectAttemptRef.current = 0
+        // Intentional close: does not trigger a reconnect
+        transportRef.current?.close()
+        transportRef.current = null
+        sessionIdRef.current = null
+        handleIdRef.current = null
+        transactionsRef.current.clear()
+        inFlightRef.current.clear()
+        initializingRef.current = false
+        initializedRef.current = false
+        setSignalingState('disconnected')
+        transitionCallPhase('idle', 'janus cleanup')
+    }
+
+    private stopKeepAlive() {
+        const { keepAliveRef } = this.refs
+        if (keepAliveRef.current) {
+            clearInterval(keepAliveRef.current)
+            keepAliveRef.current = null
+        }
+    }
+
+    private startKeepAlive() {
+        const { keepAliveRef, transportRef, sessionIdRef } = this.refs
+        this.stopKeepAlive()
+        keepAliveRef.current = setInterval(() => {
+            if (transportRef.current?.connected) {
+                transportRef.current.send({
+                    janus: 'keepalive',
+                    session_id: sessionIdRef.current,
+                    transaction: randomString(12),
+                })
+            }
+        }, 25000)
+    }
+
+    // Open a transport and wait until it is connected
+    private async openTransport(options: JanusTransportOptions) {
+        const transport = await openJanusTransport(options)
+        logDebug('Janus transport connected:', transport.kind)
+        transport.onmessage = this.handleMessage
+        // Reconnect with the transport that worked rather than trying the WebSocket again
+        transport.onclose = () =>
+            this.handleTransportClose(transport, { ...options, mode: transport.kind })
+        this.refs.transportRef.current = transport
+        return transport
+    }
+
+    // The session is gone for good: end the call and start over on next connect
+    private giveUpJanus(reason: string) {
+        const {
+            transportRef,
+            sessionIdRef,
+            handleIdRef,
+            initializedRef,
+            inFlightRef,
+            janusReconnectingRef,
+            janusReconnectAttemptRef,
+        } = this.refs
+        logger.warn('Janus reconnect failed:', reason)
+        janusReconnectingRef.current = false
+        janusReconnectAttemptRef.current = 0
+        inFlightRef.current.clear()
+        this.hangup('janus reconnect failed')
+        transportRef.current?.close()
+        transportRef.current = null
+        sessionIdRef.current = null
+        handleIdRef.current = null
+        initializedRef.current = false
+
+        const { transitionCallPhase, setSignalingState, setInitialized, setStatus } =
+            this.store.getState()
+        setSignalingState('disconnected')
+        transitionCallPhase('failed', `janus reconnect failed: ${reason}`, {
+            registrationLost: true,
+        })
+        setStatus('Connection lost')
+        setInitialized(false)
+        this.fail('janus reconnect', new Error(reason))
+    }
+
+    private scheduleJanusReconnect(options: JanusTransportOptions) {
+        const { janusReconnectAttemptRef, janusReconnectTimerRef } = this.refs
+        const attempt = janusReconnectAttemptRef.current
+        if (attempt >= JANUS_RECONNECT_MAX_ATTEMPTS) {
+            this.giveUpJanus(`no connection after ${attempt} attempts`)
+            return
+        }
+        const delay = computeBackoffDelay(attempt, JANUS_RECONNECT_BACKOFF)
+        janusReconnectAttemptRef.current = attempt + 1
+        logDebug(`Janus reconnect attempt ${attempt + 1} in ${delay}ms`)
+        janusReconnectTimerRef.current = setTimeout(() => this.reconnectJanus(options), delay)
+    }
+
+    private async reconnectJanus(options: JanusTransportOptions) {
+        const {
+            transportRef,
+            sessionIdRef,
+            inFlightRef,
+            janusReconnectingRef,
+            janusReconnectAttemptRef,
+            janusReconnectTimerRef,
+        } = this.refs
+        janusReconnectTimerRef.current = null
+        let transport: JanusTransport
+        try {
+            transport = await this.openTransport(options)
+        } catch (e) {
+            logDebug('Janus reconnect failed:', e)
+            if (sessionIdRef.current) this.scheduleJanusReconnect(options)
+            return
+        }
+
+        // Cleaned up while connecting
+        if (!sessionIdRef.current) {
+            transport.close()
+            if (transportRef.current === transport) transportRef.current = null
+            return
+        }
+
+        try {
+            await this.sendMessage({ janus: 'claim' })
+        } catch (e) {
+            // The connection dropped again before the claim was answered: keep retrying
+            if (transportRef.current !== transport || !transport.connected) return
+            this.giveUpJanus(`session not reclaimed: ${errorMessage(e)}`)
+            return
+        }
+        if (transportRef.current !== transport) return
+
+        logDebug('Janus session reclaimed:', sessionIdRef.current)
+        janusReconnectingRef.current = false
+        janusReconnectAttemptRef.current = 0
+        this.startKeepAlive()
+
+        // Requests sent (or queued) while the old connection died never got a response
+        inFlightRef.current.forEach((message) => transport.send(message))
+        if (inFlightRef.current.size > 0) {
+            logDebug(`Resent ${inFlightRef.current.size} in-flight Janus requests`)
+        }
+
+        const { setSignalingState, setStatus, connection } = this.store.getState()
+        setSignalingState('connected')
+        setStatus(
+            connection.inCall ? 'In Call' : connection.registered ? 'Connected' : 'Connecting...',
+        )
+    }
+
+    private handleTransportClose(transport: JanusTransport, options: JanusTransportOptions) {
+        const { transportRef, sessionIdRef, janusReconnectingRef } = this.refs
+        // A newer connection has replaced this one
+        if (transportRef.current !== transport) return
+        logDebug('Janus transport closed:', transport.kind)
+        this.stopKeepAlive()
+
+        const { transitionCallPhase, setSignalingState, setStatus } = this.store.getState()
+        if (!sessionIdRef.current) {
+            transportRef.current = null
+            setSignalingState('disconnected')
+            transitionCallPhase('idle', 'janus transport closed')
+            return
+        }
+
+        // Keep the call phase: the media path may well survive a short signalling outage
+        if (!janusReconnectingRef.current) {
+            janusReconnectingRef.current = true
+            setSignalingState('reconnecting')
+            setStatus('Connection lost, reconnecting...')
+        }
+        this.scheduleJanusReconnect(options)
+    }
+
+    // =========================================================================
+    // SIP
+    // =========================================================================
+
+    // Send the SIP plugin `register` request (guest, or authenticated with `sipRegistration`)
+    private async registerSip(telproDomain?: string) {
+        const { callData, webrtcConfig } = this.store.getState()
+        const domainToUse = telproDomain || callData.telproDomain
+        if (!domainToUse) {
+            throw new Error('TelPro domain is required to register')
+        }
+
+        const body = buildRegisterRequest(domainToUse, webrtcConfig.sipRegistration)
+        logDebug('Registering as:', body.username, body.type === 'guest' ? '(guest)' : '')
+        await this.sendMessage({ janus: 'message', body })
+    }
+
+    // Register again after `delay` ms. A call in progress keeps its phase
+    private scheduleRegister(delay: number) {
+        const { registerRetryRef, initializedRef } = this.refs
+        if (registerRetryRef.current) clearTimeout(registerRetryRef.current)
+        registerRetryRef.current = setTimeout(() => {
+            registerRetryRef.current = null
+            if (!initializedRef.current) return
+            const { connection, transitionCallPhase, setStatus } = this.store.getState()
+            if (!isCallInProgressPhase(connection.callPhase)) {
+                transitionCallPhase('registering', 'sip:re-register')
+                setStatus('Registering...')
+            }
+            this.registerSip().catch((e) => logger.warn('Re-registration failed:', e))
+        }, delay)
+    }
+
+    // Handle SIP events
+    private handleSipEvent(data: JanusMessage, jsep?: Jsep) {
+        const { pendingReconnectRef, incomingJsepRef, initializedRef, registerAttemptsRef } =
+            this.refs
+        const { setStatus, transitionCallPhase, setHeld, setIncomingCall, setRegistrationError } =
+            this.store.getState()
+        const result = data.result as JanusMessage | undefined
+        const event = result?.event || (data.sip !== 'event' ? data.sip : undefined)
+
+        logDebug('SIP event:', event, data)
+
+        // Re-registrations may arrive mid-call; they must not reset the call phase
+        const inProgress = isCallInProgressPhase(this.store.getState().connection.callPhase)
+
+        switch (event) {
+            case 'registering':
+                if (inProgress) break
+                transitionCallPhase('registering', 'sip:registering')
+                setStatus('Registering...')
+                break
+            case 'registered':
+                registerAttemptsRef.current = 0
+                setRegistrationError(null)
+                if (inProgress) break
+                transitionCallPhase('ready', 'sip:registered')
+                setStatus('Connected')
+                // Check if we need to reconnect to an existing call
+                if (pendingReconnectRef.current) {
+                    const reconnectState = pendingReconnectRef.current
+                    // Let the registration finish before calling again
+                    setTimeout(() => this.reconnectCall(reconnectState), 0)
+                }
+                break
+            case 'registration_failed': {
+                const error = new SipRegistrationError(
+                    String(result?.reason || 'Unknown'),
+                    typeof result?.code === 'number' ? result.code : undefined,
+                )
+                logger.warn('SIP registration failed:', error.message)
+                setRegistrationError(error)
+                this.fail('registration', error)
+
+                // Transient failures (timeouts, 5xx) are retried with a growing delay
+                const retry =
+                    error.retriable &&
+                    initializedRef.current &&
+                    registerAttemptsRef.current < MAX_REGISTER_RETRIES
+                if (retry) {
+                    registerAttemptsRef.current += 1
+                    this.scheduleRegister(REGISTER_RETRY_DELAY_MS * registerAttemptsRef.current)
+                }
+
+                // A failed refresh must not drop a call that is still up
+                if (inProgress) break
+                transitionCallPhase('failed', `registration_failed: ${error.message}`, {
+                    registrationLost: true,
+                })
+                setStatus(`Registration failed: ${error.message}`)
+                if (!retry) {
+                    // Clear pending reconnect on failure
+                    pendingReconnectRef.current = null
+                    clearCallState()
+                }
+                break
+            }
+            case 'unregistered':
+                // The SDK never unregisters on its own; register again while the session lives
+                logDebug('SIP unregistered, re-registering')
+                if (initializedRef.current) this.scheduleRegister(0)
+                break
+            case 'incomingcall': {
+                // Only one call at a time: reject while busy (or without an offer to answer)
+                if (inProgress || !jsep) {
+                    logDebug('Declining incoming call, busy or no offer')
+                    this.sendMessage({
+                        janus: 'message',
+                        body: { request: 'decline', code: 486 },
+                    }).catch((e) => logger.warn('Decline failed:', e))
+                    break
+                }
+                const callerUri = String(result?.username || '')
+                const callerName = result?.displayname ? String(result.displayname) : undefined
+                incomingJsepRef.current = jsep
+                setIncomingCall({
+                    callerUri,
+                    callerName,
+                    calleeUri: result?.callee ? String(result.callee) : undefined,
+                    sipCallId: data.call_id ? String(data.call_id) : undefined,
+                    headers: (result?.headers as Record<string, string> | undefined) || {},
+                    receivedAt: Date.now(),
+                })
+                transitionCallPhase('ringing', 'sip:incomingcall')
+                setStatus(`Incoming call from ${callerName || callerUri}`)
+                break
+            }
+            case 'calling':
+                transitionCallPhase('dialing', 'sip:calling')
+                setStatus('Calling...')
+                break
+            case 'ringing':
+                transitionCallPhase('ringing', 'sip:ringing')
+                setStatus('Ringing...')
+                break
+            case 'progress':
+                transitionCallPhase('early_media', 'sip:progress')
+                setStatus('Connecting...')
+                if (jsep) this.handleRemoteJsep(jsep)
+                break
+            case 'accepted':
+                transitionCallPhase('active', 'sip:accepted')
+                setStatus('In Call')
+                if (jsep) this.handleRemoteJsep(jsep)
+                break
+            case 'holding':
+                // Confirmation of our own `hold` request
+                setHeld(true, 'local')
+                setStatus('On Hold')
+                break
+            case 'resuming':
+                // Confirmation of our own `unhold` request
+                setHeld(false)
+                setStatus('In Call')
+                break
+            case 'updatingcall':
+                // Remote re-INVITE (e.g. remote hold/resume) - answered in handleRemoteJsep
+                if (jsep) this.handleRemoteJsep(jsep)
+                break
+            case 'updated':
+                // Answer to our own `update` (ICE restart)
+                if (jsep) this.handleRemoteJsep(jsep)
+                break
+            case 'hangup':
+                logDebug('SIP hangup')
+                this.hangup('sip hangup')
+                break
+            case 'declining':
+            case 'missed':
+                logDebug('SIP declined/missed')
+                this.hangup(`sip ${event}`)
+                break
+        }
+    }
+
+    // Apply a remote SDP; a remote offer mid-call is a re-INVITE and gets answered
+    private async handleRemoteJsep(jsep: Jsep) {
+        const { pcRef, pendingCandidatesRef, remoteDescriptionSetRef } = this.refs
+        const pc = pcRef.current
+        if (!pc) return
+
+        try {
+            logDebug('Setting remote description:', jsep.type)
+            await pc.setRemoteDescription({
+                type: jsep.type as RTCSdpType,
+                sdp: jsep.sdp,
+            })
+            remoteDescriptionSetRef.current = true
+
+            // Process any queued ICE candidates
+            const pending = pendingCandidatesRef.current
+            if (pending.length > 0) {
+                logDebug(`Processing ${pending.length} queued ICE candidates`)
+                pendingCandidatesRef.current = []
+                for (const candidate of pending) {
+                    await this.addIceCandidate(candidate)
+                }
+            }
+
+            // A remote offer mid-call is a re-INVITE (`updatingcall`): track hold via its
+            // SDP direction and answer it through the SIP plugin `accept` request
+            if (jsep.type === 'offer' && jsep.sdp) {
+                const direction = getSdpDirection(jsep.sdp)
+                const { connection, setHeld } = this.store.getState()
+                logDebug('Remote re-INVITE, audio direction:', direction)
+
+                if (isRemoteHoldDirection(direction)) {
+                    if (connection.callPhase === 'active') setHeld(true, 'remote')
+                } else if (connection.callPhase === 'held' && connection.heldBy === 'remote') {
+                    setHeld(false)
+                }
+
+                const answer = await pc.createAnswer()
+                await pc.setLocalDescription(answer)
+                await this.sendMessage({
+                    janus: 'message',
+                    body: { request: 'accept' },
+                    jsep: { type: answer.type, sdp: answer.sdp },
+                })
+            }
+        } catch (e) {
+            logger.error('Error setting remote description:', e)
+        }
+    }
+
+    // Remote trickle ICE candidate from Janus (queued until the remote description is set)
+    private handleRemoteTrickle(candidate: JanusMessage | null) {
+        const { pendingCandidatesRef, remoteDescriptionSetRef } = this.refs
+        if (!remoteDescriptionSetRef.current) {
+            logDebug('Queueing ICE candidate (no remote description yet)')
+            pendingCandidatesRef.current.push(candidate)
+            return
+        }
+        this.addIceCandidate(candidate)
+    }
+
+    private async addIceCandidate(candidate: JanusMessage | null) {
+        const pc = this.refs.pcRef.current
+        if (!pc) return
+
+        try {
+            if (candidate && !candidate.completed) {
+                logDebug('Adding remote ICE candidate:', candidate)
+                await pc.addIceCandidate({
+                    candidate: candidate.candidate as string,
+                    sdpMid: candidate.sdpMid as string | null,
+                    sdpMLineIndex: candidate.sdpMLineIndex as number | null,
+                })
+            } else {
+                logDebug('Remote ICE gathering complete')
+            }
+        } catch (e) {
+            logger.error('Error adding remote ICE candidate:', e)
+        }
+    }
+
+    // =========================================================================
+    // Calls
+    // =========================================================================
+
+    // Request a call token from TelAPI
+    requestCallToken = async (endpointId: string): Promise<CallTokenResponse> => {
+        const { webrtcConfig, getDerivedUrlsFor } = this.store.getState()
+        const { apiDomain, apiKey } = webrtcConfig
+        if (!apiDomain) {
+            throw new Error('API domain not configured. Please set apiDomain in webrtcConfig.')
+        }
+
+        if (!apiKey) {
+            throw new Error('API key not configured. Please set apiKey in webrtcConfig.')
+        }
+
+        const url = `${getDerivedUrlsFor(apiDomain).telapiUrl}/api/v1/calls/token`
+        logDebug('Requesting call token for endpoint:', endpointId, 'URL:', url)
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-API-Key': apiKey,
+                },
+                body: JSON.stringify({ endpointId }),
+            })
+
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({ error: 'Unknown error' }))
+                throw new Error(error.error || `Failed to get call token: ${response.status}`)
+            }
+
+            const data: CallTokenResponse = await response.json()
+            logDebug(
+                'Call token received:',
+                data.callId,
+                'wsToken expires in:',
+                data.wsTokenExpiresIn,
+            )
+            logDebug('Full token response:', data)
+            return data
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('Failed to fetch')) {
+                logDebug('Network error - URL:', url, 'Domain:', apiDomain)
+                throw new Error(
+                    `Network error: Cannot reach ${apiDomain}. Check your network connection and API domain configuration.`,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Get a new call channel token from TelAPI before the current one expires. The token
+     * is stored and persisted with the call state. Concurrent calls share one request.
+     * Resolves to null if there is no call or the refresh failed.
+     */
+    refreshWsToken = (): Promise<string | null> => {
+        this.wsTokenRefresh ??= this.requestWsTokenRefresh().finally(() => {
+            this.wsTokenRefresh = null
+        })
+        return this.wsTokenRefresh
+    }
+
+    private async requestWsTokenRefresh(): Promise<string | null> {
+        const { webrtcConfig, callData, getDerivedUrlsFor } = this.store.getState()
+        const { apiDomain, apiKey } = webrtcConfig
+        const { currentCallId: callId, currentWsToken: wsToken } = callData
+        if (!callId || !wsToken || !apiDomain || !apiKey) {
+            logDebug('No call channel token to refresh')
+            return null
+        }
+
+        const url = `${getDerivedUrlsFor(apiDomain).telapiUrl}/api/v1/calls/token/refresh`
+        logDebug('Refreshing call channel token for call:', callId)
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-API-Key': apiKey,
+                },
+                body: JSON.stringify({ callId, wsToken }),
+            })
+
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({ error: 'Unknown error' }))
+                throw new Error(
+                    error.error || `Failed to refresh call channel token: ${response.status}`,
+                )
+            }
+
+            const data: WsTokenRefreshResponse = await response.json()
+            // The call may have ended while the request was in flight
+            if (this.store.getState().callData.currentCallId !== callId) return null
+
+            const wsTokenExpiresAt = this.applyWsToken(data.wsToken, data.wsTokenExpiresIn)
+            const persisted = loadCallState()
+            if (persisted?.callId === callId) {
+                saveCallState({ ...persisted, wsToken: data.wsToken, wsTokenExpiresAt })
+            }
+            logDebug('Call channel token refreshed, expires in:', data.wsTokenExpiresIn)
+            return data.wsToken
+        } catch (error) {
+            logger.error('Failed to refresh call channel token:', error)
+            this.fail('ws token', error)
+            return null
+        }
+    }
+
+    // Store a call channel token and schedule its refresh; returns its expiry time
+    private applyWsToken(wsToken: string, expiresInSec: number): number {
+        const expiresAt = Date.now() + expiresInSec * 1000
+        this.store.getState().setCurrentWsToken(wsToken)
+        this.scheduleWsTokenRefresh(expiresAt)
+        return expiresAt
+    }
+
+    private scheduleWsTokenRefresh(expiresAt: number) {
+        this.cancelWsTokenRefresh()
+        const remaining = expiresAt - Date.now()
+        const delay = Math.max(remaining - WS_TOKEN_REFRESH_MARGIN_MS, remaining / 2, 0)
+        this.wsTokenRefreshTimer = setTimeout(() => {
+            this.wsTokenRefreshTimer = null
+            void this.refreshWsToken()
+        }, delay)
+    }
+
+    private cancelWsTokenRefresh() {
+        if (this.wsTokenRefreshTimer) {
+            clearTimeout(this.wsTokenRefreshTimer)
+            this.wsTokenRefreshTimer = null
+        }
+    }
+
+    // Request call token to get telproDomain, then connect to Janus
+    initializeForCall = async (pendingCall: InitiateCallParams) => {
+        const { endpointId, phoneNumber, endpointName, appName } = pendingCall
+        const {
+            webrtcConfig,
+            connection,
+            setStatus,
+            setCurrentCallId,
+            setTelproDomain,
+            transitionCallPhase,
+            setInitialized,
+        } = this.store.getState()
+
+        if (!webrtcConfig.apiKey) {
+            const errorMsg = 'API key not configured. Set TELAPI_KEY environment variable.'
+            logDebug('No API key, cannot get call token')
+            setStatus(`Failed: ${errorMsg}`)
+            logger.error(errorMsg)
+            this.fail('call token', new Error(errorMsg))
+            return
+        }
+
+        try {
+            setStatus('Preparing call...')
+            const tokenResponse = await this.requestCallToken(endpointId)
+            setCurrentCallId(tokenResponse.callId)
+            const wsTokenExpiresAt = this.applyWsToken(
+                tokenResponse.wsToken,
+                tokenResponse.wsTokenExpiresIn,
+            )
+
+            // Set telproDomain from API response - REQUIRED for Janus connection
+            if (!tokenResponse.telproDomain) {
+                throw new Error(
+                    `TelPro domain not provided in call token response. Received: ${JSON.stringify(tokenResponse)}`,
+                )
+            }
+            setTelproDomain(tokenResponse.telproDomain)
+            logDebug('TelPro domain set from API:', tokenResponse.telproDomain)
+
+            // Save call state for potential reconnection
+            saveCallState({
+                callId: tokenResponse.callId,
+                endpointId,
+                phoneNumber: phoneNumber || undefined,
+                endpointName: endpointName || '',
+                appName: appName || '',
+                startedAt: Date.now(),
+                wsToken: tokenResponse.wsToken,
+                wsTokenExpiresAt,
+                telproDomain: tokenResponse.telproDomain,
+                muted: this.store.getState().connection.muted,
+            })
+
+            // Now initialize Janus with the telproDomain
+            if (!connection.initialized && !this.refs.initializingRef.current) {
+                setInitialized(true)
+                await this.connect(tokenResponse.telproDomain)
+            }
+        } catch (error) {
+            logger.error('Failed to prepare call:', error)
+            setStatus(`Failed: ${errorMessage(error)}`)
+            transitionCallPhase('failed', errorMessage(error, 'Failed to prepare call'))
+            this.fail('call token', error)
+        }
+    }
+
+    /**
+     * Get ready to call an endpoint: validate the number, store the call details, fetch a
+     * call token and connect. Resolves to false for an invalid phone number.
+     */
+    prepareCall = async (params: InitiateCallParams): Promise<boolean> => {
+        const { endpointId, phoneNumber, endpointName, appName } = params
+        const { webrtcConfig, setStatus, setAppEndpointName, setCallData } = this.store.getState()
+
+        // An empty number keeps the legacy behaviour of calling the endpoint itself
+        const normalizedNumber = phoneNumber
+            ? normalizePhoneNumber(phoneNumber, webrtcConfig.dialPlan?.defaultCountryCode)
+            : ''
+        if (normalizedNumber === null) {
+            logger.warn('Invalid phone number, call not initiated:', phoneNumber)
+            setStatus(`Invalid phone number: ${phoneNumber}`)
+            this.fail('call', new Error(`Invalid phone number: ${phoneNumber}`))
+            return false
+        }
+
+        setAppEndpointName(endpointId, endpointName || '', appName || '')
+        setCallData({ phoneNumber: normalizedNumber })
+        await this.initializeForCall({ ...params, phoneNumber: normalizedNumber })
+        return true
+    }
+
+    /**
+     * Call an endpoint: `prepareCall()`, wait for the SIP registration, then `makeCall()`.
+     * Resolves to false if the call could not be started.
+     */
+    call = async (params: InitiateCallParams): Promise<boolean> => {
+        if (!(await this.prepareCall(params))) return false
+        if (!(await this.waitForRegistration())) return false
+        return this.makeCall()
+    }
+
+    // Resolve once registered with no call in progress, or false on failure. A finished
+    // call (`ended` or `failed`) keeps the registration, so the next call can go ahead. The
+    // Janus session and SIP handle must still exist as well
+    private waitForRegistration(timeoutMs = 30000): Promise<boolean> {
+        const { sessionIdRef, handleIdRef } = this.refs
+        const outcome = ({ registered, callPhase }: WebRTCPhoneConnectionState) => {
+            const usable =
+                registered && sessionIdRef.current !== null && handleIdRef.current !== null
+            if (usable && !isCallInProgressPhase(callPhase)) return true
+            if (!usable && (callPhase === 'failed' || callPhase === 'idle')) return false
+            return null
+        }
+        const current = outcome(this.store.getState().connection)
+        if (current !== null) return Promise.resolve(current)
+
+        return new Promise((resolve) => {
+            const done = (result: boolean) => {
+                clearTimeout(timeout)
+                unsubscribe()
+                resolve(result)
+            }
+            const timeout = setTimeout(() => done(false), timeoutMs)
+            const unsubscribe = this.store.subscribe(
+                (state) => state.connection,
+                (connection) => {
+                    const result = outcome(connection)
+                    if (result !== null) done(result)
+                },
+            )
+        })
+    }
+
+    // Create the peer connection for a call with the current microphone stream
+    private createPeerConnection(
+        iceServers: RTCIceServer[],
+        stream: MediaStream,
+        logPrefix: string,
+    ) {
+        const { preferPcma = true } = this.store.getState().webrtcConfig
+        const pc = new RTCPeerConnection({ iceServers })
+        this.refs.pcRef.current = pc
+
+        stream.getTracks().forEach((track) => pc.addTrack(track, stream))
+        // PCMA (G.711 A-law) avoids transcoding on Janus
+        setAudioCodecPreferences(pc, preferPcma)
+
+        pc.ontrack = (event) => {
+            logDebug(`${logPrefix} Remote track received:`, event.track.kind)
+            const [remoteStream] = event.streams
+            if (!remoteStream) return
+            this.attachRemoteAudio(remoteStream)
+            this.emit('remoteTrack', { track: event.track, stream: remoteStream })
+        }
+        // Restarts ICE when the media path breaks mid-call
+        pc.oniceconnectionstatechange = () => this.handleIceStateChange(pc)
+        // Janus queues early candidates and processes them once the SDP is set
+        pc.onicecandidate = (event) => this.sendTrickle(event.candidate)
+        return pc
+    }
+
+    /**
+     * Start the call prepared with `prepareCall()` (or the store's call data).
+     * Requests a call token if needed. Resolves to false if the call could not be started.
+     */
+    makeCall = async (): Promise<boolean> => {
+        // Always read fresh state
+        const { connection, callData, webrtcConfig } = this.store.getState()
+        const { endpointId, endpointName, appName, phoneNumber, currentCallId, currentWsToken } =
+            callData
+        const { apiDomain, apiKey, dialPlan } = webrtcConfig
+        const { iceServers } = this.store.getState().getDerivedUrlsFor(apiDomain)
+        const {
+            transitionCallPhase,
+            setStatus,
+            setCurrentCallId,
+            setCurrentWsToken,
+            setTelproDomain,
+        } = this.store.getState()
+
+        if (!connection.registered) {
+            logDebug('Not registered yet, waiting...')
+            return false
+        }
+
+        if (!endpointId) {
+            logDebug('No endpoint ID, cannot make call')
+            return false
+        }
+
+        if (!transitionCallPhase('dialing', 'makeCall')) {
+            logDebug('Cannot start a call from the current phase')
+            return false
+        }
+
+        try {
+            setStatus('Setting up call...')
+
+            // Acquire a call token if we don't have one yet
+            let callId = currentCallId
+            if (!callId && apiKey) {
+                setStatus('Requesting call token...')
+                try {
+                    const tokenResponse = await this.requestCallToken(endpointId)
+                    callId = tokenResponse.callId
+                    setCurrentCallId(callId)
+                    const wsTokenExpiresAt = this.applyWsToken(
+                        tokenResponse.wsToken,
+                        tokenResponse.wsTokenExpiresIn,
+                    )
+
+                    if (tokenResponse.telproDomain) {
+                        setTelproDomain(tokenResponse.telproDomain)
+                        logDebug('TelPro domain set from API:', tokenResponse.telproDomain)
+                    }
+
+                    logDebug('Using call ID:', callId)
+
+                    saveCallState({
+                        callId,
+                        endpointId,
+                        phoneNumber: phoneNumber || undefined,
+                        endpointName,
+                        appName,
+                        startedAt: Date.now(),
+                        wsToken: tokenResponse.wsToken,
+                        wsTokenExpiresAt,
+                        telproDomain: tokenResponse.telproDomain || undefined,
+                        muted: this.store.getState().connection.muted,
+                    })
+                } catch (tokenError) {
+                    logger.warn('Failed to get call token, proceeding without:', tokenError)
+                }
+            } else {
+                logDebug('Using existing call ID:', callId, currentWsToken ? '(with token)' : '')
+            }
+
+            // Acquire microphone
+            setStatus('Getting microphone...')
+            const stream = await this.acquireMicrophone()
+            const pc = this.createPeerConnection(iceServers, stream, '[Call]')
+
+            // Create and send SDP offer
+            const offer = await pc.createOffer({ offerToReceiveAudio: true })
+            await pc.setLocalDescription(offer)
+
+            // Re-read telproDomain from store — it may have been updated by requestCallToken above
+            const currentTelproDomain = this.store.getState().callData.telproDomain
+            if (!currentTelproDomain) {
+                throw new Error(
+                    'TelPro domain not available. Please ensure call token was received.',
+                )
+            }
+
+            const { uri, headers: dialHeaders } = buildDialTarget(
+                currentTelproDomain,
+                phoneNumber,
+                dialPlan,
+            )
+            const sipHeaders: Record<string, string> = { ...dialHeaders }
+            if (callId) sipHeaders['X-Call-ID'] = callId
+            logDebug('Calling:', uri, 'with headers:', sipHeaders)
+
+            const callBody: JanusMessage = { request: 'call', uri }
+            if (Object.keys(sipHeaders).length > 0) callBody.headers = sipHeaders
+
+            await this.sendMessage({
+                janus: 'message',
+                body: callBody,
+                jsep: { type: offer.type, sdp: offer.sdp },
+            })
+            return true
+        } catch (error) {
+            logger.error('Call failed:', error)
+            transitionCallPhase('failed', errorMessage(error, 'Call failed'))
+            setCurrentCallId(null)
+            setCurrentWsToken(null)
+            setStatus(`Call failed: ${errorMessage(error)}`)
+            this.cleanupCall()
+            this.fail('call', error)
+            return false
+        }
+    }
+
+    /**
+     * Resume a call persisted before a page reload: restores the call data and connects;
+     * the call is placed again once registered. Returns false if there is nothing to resume.
+     */
+    resumePersistedCall = (): boolean => {
+        const storedState = this.store.getState().restoreFromPersistedState()
+        if (!storedState) return false
+        this.refs.pendingReconnectRef.current = storedState
+        if (storedState.wsToken && storedState.wsTokenExpiresAt) {
+            this.scheduleWsTokenRefresh(storedState.wsTokenExpiresAt)
+        }
+        if (storedState.telproDomain) this.connect(storedState.telproDomain)
+        return true
+    }
+
+    /** Abandon a pending reconnect to a persisted call */
+    cancelReconnect = () => {
+        const { connection, setReconnecting, transitionCallPhase, setStatus } =
+            this.store.getState()
+        this.refs.pendingReconnectRef.current = null
+        setReconnecting(false)
+        if (isCallInProgressPhase(connection.callPhase)) {
+            transitionCallPhase('ended', 'reconnect cancelled')
+        }
+        clearCallState()
+        this.cleanupCall()
+        setStatus(connection.registered ? 'Connected' : 'Disconnected')
+    }
+
+    // Reconnect to an existing call (after page reload)
+    private async reconnectCall(state: NonNullable<WebRTCRefs['pendingReconnectRef']['current']>) {
+        const {
+            setEndpointId,
+            setEndpointName,
+            setAppName,
+            setCurrentCallId,
+            setCurrentWsToken,
+            setStatus,
+            transitionCallPhase,
+            setReconnecting,
+            webrtcConfig,
+        } = this.store.getState()
+        logDebug('Reconnecting to call:', state.callId)
+        setReconnecting(true)
+        setStatus('Reconnecting...')
+
+        try {
+            if (!state.telproDomain) {
+                throw new Error('TelPro domain not available in stored state')
+            }
+
+            // Clean up any existing call before reconnecting
+            this.cleanupCall()
+
+            // Get microphone (re-applies mute restored from the persisted state)
+            const stream = await this.acquireMicrophone()
+
+            // ICE servers for this call's telproDomain
+            const pc = this.createPeerConnection(
+                [
+                    { urls: `stun:${state.telproDomain}:3478` },
+                    {
+                        urls: [
+                            `turn:${state.telproDomain}:3478?transport=udp`,
+                            `turn:${state.telproDomain}:3478?transport=tcp`,
+                        ],
+                        username: 'telpro',
+                        credential: 'changeme',
+                    },
+                ],
+                stream,
+                '[Reconnect]',
+            )
+
+            // Create offer
+            const offer = await pc.createOffer({ offerToReceiveAudio: true })
+            await pc.setLocalDescription(offer)
+
+            transitionCallPhase('dialing', 'reconnect')
+
+            // Send call with the same X-Call-ID (and dial target) to reconnect
+            const { uri, headers: dialHeaders } = buildDialTarget(
+                state.telproDomain,
+                state.phoneNumber,
+                webrtcConfig.dialPlan,
+            )
+            logDebug('Reconnecting to:', uri, 'with call ID:', state.callId)
+
+            await this.sendMessage({
+                janus: 'message',
+                body: {
+                    request: 'call',
+                    uri,
+                    headers: { ...dialHeaders, 'X-Call-ID': state.callId },
+                },
+                jsep: { type: offer.type, sdp: offer.sdp },
+            })
+
+            // Restore state
+            setEndpointId(state.endpointId)
+            if (state.endpointName) setEndpointName(state.endpointName)
+            if (state.appName) setAppName(state.appName)
+            setCurrentCallId(state.callId)
+            if (state.wsToken) setCurrentWsToken(state.wsToken)
+        } catch (error) {
+            logger.error('Reconnect failed:', error)
+            transitionCallPhase('failed', errorMessage(error, 'Reconnect failed'))
+            setStatus(`Reconnect failed: ${errorMessage(error)}`)
+            clearCallState()
+            this.cleanupCall()
+            this.fail('reconnect', error)
+        } finally {
+            setReconnecting(false)
+            this.refs.pendingReconnectRef.current = null
+        }
+    }
+
+    /**
+     * Answer the ringing inbound call: acquire the microphone, answer the caller's offer
+     * and send it through the SIP plugin `accept` request.
+     */
+    acceptCall = async (): Promise<boolean> => {
+        const { incomingJsepRef, pendingCandidatesRef, remoteDescriptionSetRef } = this.refs
+        // Always read fresh state
+        const { connection, webrtcConfig, getDerivedUrlsFor, transitionCallPhase, setStatus } =
+            this.store.getState()
+        const offer = incomingJsepRef.current
+
+        if (!this.store.getState().incomingCall || !offer) {
+            logDebug('No incoming call to accept')
+            return false
+        }
+        if (connection.callPhase !== 'ringing') {
+            logDebug('Cannot accept, call is not ringing:', connection.callPhase)
+            return false
+        }
+
+        const { iceServers } = getDerivedUrlsFor(webrtcConfig.apiDomain)
+
+        // The call leaves the ringing UI as soon as it is picked up
+        incomingJsepRef.current = null
+        this.store.getState().setIncomingCall(null)
+
+        try {
+            // Acquire microphone
+            setStatus('Getting microphone...')
+            const stream = await this.acquireMicrophone()
+            const pc = this.createPeerConnection(iceServers, stream, '[Incoming]')
+
+            // Apply the caller's offer, then any candidates queued while ringing
+            setStatus('Answering...')
+            await pc.setRemoteDescription({ type: 'offer', sdp: offer.sdp })
+            remoteDescriptionSetRef.current = true
+            const pending = pendingCandidatesRef.current
+            pendingCandidatesRef.current = []
+            for (const candidate of pending) {
+                await this.addIceCandidate(candidate)
+            }
+
+            const answer = await pc.createAnswer()
+            await pc.setLocalDescription(answer)
+            await this.sendMessage({
+                janus: 'message',
+                body: { request: 'accept' },
+                jsep: { type: answer.type, sdp: answer.sdp },
+            })
+
+            transitionCallPhase('active', 'acceptCall')
+            setStatus('In Call')
+            return true
+        } catch (error) {
+            logger.error('Accept failed:', error)
+            transitionCallPhase('failed', errorMessage(error, 'Accept failed'))
+            setStatus(`Accept failed: ${errorMessage(error)}`)
+            this.cleanupCall()
+            // Do not leave the caller ringing
+            this.sendMessage({ janus: 'message', body: { request: 'decline' } }).catch(() => {})
+            this.fail('accept', error)
+            return false
+        }
+    }
+
+    /** Reject the ringing inbound call with a SIP status code (default 486 Busy Here) */
+    declineCall = async (code = 486): Promise<boolean> => {
+        const { incomingCall, transitionCallPhase, setStatus, setIncomingCall, connection } =
+            this.store.getState()
+        if (!incomingCall) {
+            logDebug('No incoming call to decline')
+            return false
+        }
+
+        this.refs.incomingJsepRef.current = null
+        setIncomingCall(null)
+        transitionCallPhase('ended', 'declineCall')
+        setStatus(connection.registered ? 'Connected' : 'Disconnected')
+
+        try {
+            logDebug('Declining incoming call:', code)
+            await this.sendMessage({ janus: 'message', body: { request: 'decline', code } })
+            return true
+        } catch (e) {
+            logger.error('Decline failed:', e)
+            return false
+        }
+    }
+
+    /**
+     * Hang up the current call (or decline a ringing inbound one) and release its media.
+     * Remote hangups end up here too.
+     */
+    hangup = async (reason = 'hangup') => {
+        const {
+            connection,
+            incomingCall,
+            transitionCallPhase,
+            setCurrentCallId,
+            setCurrentWsToken,
+            clearDtmfDigits,
+            setMuted,
+            setStatus,
+        } = this.store.getState()
+        // Local and remote hangups both land here; only a call in progress moves to ending
+        const wasInProgress = isCallInProgressPhase(connection.callPhase)
+        if (wasInProgress) transitionCallPhase('ending', reason)
+        try {
+            // An inbound call that was never answered is declined rather than hung up
+            const request = incomingCall ? 'decline' : 'hangup'
+            await this.sendMessage({ janus: 'message', body: { request } })
+        } catch {
+            // Ignore hangup errors
+        }
+        if (wasInProgress) transitionCallPhase('ended', reason)
+        setCurrentCallId(null)
+        setCurrentWsToken(null)
+        clearDtmfDigits()
+        setMuted(false) // Next call starts unmuted
+        setStatus(this.store.getState().connection.registered ? 'Connected' : 'Disconnected')
+        this.cleanupCall()
+        clearCallState() // Clear stored state on explicit hangup
+        // Keep endpointId and endpointName for "Call Again" functionality
+    }
+
+    /** Release the media of the current call (no SIP signalling) */
+    cleanupCall = () => {
+        const {
+            pcRef,
+            localStreamRef,
+            localAudioPipelineRef,
+            remoteAudioPipelineRef,
+            remoteAudioRef,
+            localAudioRef,
+            pendingCandidatesRef,
+            remoteDescriptionSetRef,
+            incomingJsepRef,
+            iceRestartAttemptRef,
+            iceRestartTimerRef,
+            iceRestartPendingRef,
+        } = this.refs
+        const { setIncomingCall, setAudioBlocked, setMediaRecovering } = this.store.getState()
+
+        if (pcRef.current) {
+            pcRef.current.close()
+            pcRef.current = null
+        }
+        if (localStreamRef.current) {
+            localStreamRef.current.getTracks().forEach((track) => track.stop())
+            localStreamRef.current = null
+        }
+        // Stops the raw microphone too when a processing chain is in use
+        localAudioPipelineRef.current?.close()
+        localAudioPipelineRef.current = null
+        remoteAudioPipelineRef.current?.close()
+        remoteAudioPipelineRef.current = null
+        if (remoteAudioRef.current) {
+            remoteAudioRef.current.srcObject = null
+        }
+        if (localAudioRef.current) {
+            localAudioRef.current.srcObject = null
+        }
+        // Reset ICE candidate queue state
+        pendingCandidatesRef.current = []
+        remoteDescriptionSetRef.current = false
+        // Stop any pending ICE restart
+        if (iceRestartTimerRef.current) {
+            clearTimeout(iceRestartTimerRef.current)
+            iceRestartTimerRef.current = null
+        }
+        iceRestartAttemptRef.current = 0
+        iceRestartPendingRef.current = false
+        setMediaRecovering(false)
+        // Drop any inbound call that was still ringing
+        incomingJsepRef.current = null
+        setIncomingCall(null)
+        setAudioBlocked(false)
+    }
+
+    // Keep the persisted call fresh while a call is up, so its TTL check works even if
+    // `beforeunload` does not fire
+    private persistWhileActive(active: boolean) {
+        if (this.persistTimer) {
+            clearInterval(this.persistTimer)
+            this.persistTimer = null
+        }
+        if (!active) return
+
+        const updateTimestamp = () => {
+            const currentState = loadCallState()
+            if (currentState) {
+                saveCallState({ ...currentState, startedAt: Date.now() })
+                logDebug('Updated call state timestamp')
+            }
+        }
+        updateTimestamp()
+        this.persistTimer = setInterval(updateTimestamp, 5000)
+    }
+
+    // =========================================================================
+    // In-Call Controls
+    // =========================================================================
+
+    /**
+     * Play a DTMF tone locally and, when in a call, send the digit to the remote party
+     * via the Janus SIP plugin.
+     */
+    sendDtmf = async (digit: string) => {
+        const { connection, appendDtmfDigit } = this.store.getState()
+        // Local feedback, even if not in call
+        playDtmfTone(digit)
+        appendDtmfDigit(digit)
+
+        if (!connection.inCall) return
+        try {
+            logDebug('Sending DTMF:', digit)
+            await this.sendMessage({
+                janus: 'message',
+                body: { request: 'dtmf_info', digit },
+            })
+        } catch (e) {
+            logger.error('DTMF failed:', e)
+        }
+    }
+
+    /**
+     * Mute or unmute the microphone. Disables the local audio tracks (no renegotiation);
+     * the choice is re-applied to streams created later (new call, reconnect).
+     */
+    setMuted = (muted: boolean) => this.store.getState().setMuted(muted)
+
+    toggleMute = () => this.setMuted(!this.store.getState().connection.muted)
+
+    /**
+     * Put the active call on hold via the SIP plugin `hold` request. The phase moves to
+     * `held` once Janus confirms.
+     */
+    hold = async (direction: 'sendonly' | 'recvonly' | 'inactive' = 'sendonly') => {
+        const { callPhase } = this.store.getState().connection
+        if (callPhase !== 'active') {
+            logDebug('Cannot hold, call is not active:', callPhase)
+            return false
+        }
+        try {
+            logDebug('Putting call on hold:', direction)
+            await this.sendMessage({ janus: 'message', body: { request: 'hold', direction } })
+            return true
+        } catch (e) {
+            logger.error('Hold failed:', e)
+            return false
+        }
+    }
+
+    /** Resume a call held locally (SIP plugin `unhold`) */
+    resume = async () => {
+        const { callPhase, heldBy } = this.store.getState().connection
+        if (callPhase !== 'held' || heldBy !== 'local') {
+            logDebug('Cannot resume, call is not held locally:', callPhase, heldBy)
+            return false
+        }
+        try {
+            logDebug('Resuming call')
+            await this.sendMessage({ janus: 'message', body: { request: 'unhold' } })
+            return true
+        } catch (e) {
+            logger.error('Resume failed:', e)
+            return false
+        }
+    }
+
+    toggleHold = () => (this.store.getState().connection.held ? this.resume() : this.hold())
+
+    // =========================================================================
+    // Media
+    // =========================================================================
+
+    // Acquire the selected microphone with the configured constraints and processing chain.
+    // Stores the pipeline in the refs and returns the stream to send; the caller closes any
+    // previous pipeline (cleanupCall, or after replaceTrack when switching devices).
+    private async acquireMicrophone(): Promise<MediaStream> {
+        const { devices, webrtcConfig, connection } = this.store.getState()
+        const { audio } = webrtcConfig
+
+        const input = await getMicrophoneStream(devices.selectedInputId, audio)
+        const pipeline = createLocalAudioPipeline(input, audio?.processing)
+        this.refs.localAudioPipelineRef.current = pipeline
+        this.refs.localStreamRef.current = pipeline.stream
+
+        // Keep the user's mute choice across new streams
+        setStreamMuted(pipeline.stream, connection.muted)
+        if (this.refs.localAudioRef.current) {
+            this.refs.localAudioRef.current.srcObject = pipeline.stream
+        }
+        return pipeline.stream
+    }
+
+    // The element remote audio plays through; created on first use outside of React
+    private getRemoteAudioElement() {
+        const { remoteAudioRef } = this.refs
+        if (!remoteAudioRef.current && typeof document !== 'undefined') {
+            remoteAudioRef.current = document.createElement('audio')
+            remoteAudioRef.current.autoplay = true
+        }
+        return remoteAudioRef.current
+    }
+
+    // Play a remote stream through the remote audio element (with the configured volume boost)
+    private attachRemoteAudio(stream: MediaStream) {
+        const audio = this.getRemoteAudioElement()
+        if (!audio) return
+
+        const { webrtcConfig, devices } = this.store.getState()
+        this.refs.remoteAudioPipelineRef.current?.close()
+        const pipeline = createRemoteAudioPipeline(
+            stream,
+            webrtcConfig.audio?.processing?.remoteGain,
+        )
+        this.refs.remoteAudioPipelineRef.current = pipeline
+
+        audio.srcObject = pipeline.stream
+        applySinkId(audio, devices.selectedOutputId ?? '')
+        logDebug('Remote audio stream attached, attempting playback...')
+        this.playRemoteAudio()
+    }
+
+    /**
+     * Start remote audio playback. Sets `ui.audioBlocked` when the browser's autoplay
+     * policy requires a user gesture; call it again from a click handler in that case.
+     */
+    playRemoteAudio = async () => {
+        const audio = this.refs.remoteAudioRef.current
+        const { setAudioBlocked } = this.store.getState()
+        if (!audio || !audio.srcObject) return
+
+        try {
+            await audio.play()
+            logDebug('Audio playback started successfully')
+            setAudioBlocked(false)
+        } catch (error) {
+            if (error instanceof Error && error.name === 'NotAllowedError') {
+                logDebug('Audio playback blocked - needs user interaction')
+                setAudioBlocked(true)
+            } else {
+                logger.error('Audio playback failed:', error)
+            }
+        }
+    }
+
+    /**
+     * Refresh `devices.inputs` / `devices.outputs`. Resolves to the new lists, or null if
+     * the devices cannot be enumerated (the store keeps the previous lists)
+     */
+    refreshDevices = async (): Promise<{
+        inputs: AudioDeviceInfo[]
+        outputs: AudioDeviceInfo[]
+    } | null> => {
+        if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+            return null
+        }
+        try {
+            const { inputs, outputs } = await enumerateAudioDevices()
+            this.store.getState().setAudioDevices(inputs, outputs)
+            return { inputs, outputs }
+        } catch (e) {
+            logger.warn('Failed to enumerate audio devices:', e)
+            return null
+        }
+    }
+
+    // Swap the microphone of the live call without renegotiation (RTCRtpSender.replaceTrack).
+    // Uses the selected device, or the system default when it is unavailable.
+    private async switchLiveMicrophone() {
+        const { pcRef, localStreamRef, localAudioPipelineRef } = this.refs
+        const pc = pcRef.current
+        const previousStream = localStreamRef.current
+        const previousPipeline = localAudioPipelineRef.current
+        if (!pc || !previousStream) return
+
+        const sender = pc.getSenders().find((s) => s.track?.kind === 'audio')
+        if (!sender) return
+
+        const stream = await this.acquireMicrophone()
+        const [track] = stream.getAudioTracks()
+        try {
+            await sender.replaceTrack(track)
+        } catch (e) {
+            // Keep the old microphone
+            localAudioPipelineRef.current?.close()
+            localAudioPipelineRef.current = previousPipeline
+            localStreamRef.current = previousStream
+            throw e
+        }
+
+        if (previousPipeline) previousPipeline.close()
+        else previousStream.getTracks().forEach((t) => t.stop())
+        logDebug('Microphone switched to:', track.label || 'default')
+    }
+
+    /** Select the microphone (null = system default); a live call switches immediately */
+    selectInputDevice = async (deviceId: string | null) => {
+        this.store.getState().setSelectedInputId(deviceId)
+        try {
+            await this.switchLiveMicrophone()
+        } catch (e) {
+            logger.error('Failed to switch microphone:', e)
+            this.fail('microphone', e)
+        }
+    }
+
+    /** Select the speaker (null = system default) */
+    selectOutputDevice = async (deviceId: string | null) => {
+        this.store.getState().setSelectedOutputId(deviceId)
+        await applySinkId(this.refs.remoteAudioRef.current, deviceId ?? '')
+    }
+
+    /**
+     * Follow plugged and unplugged headsets: refreshes the device lists and moves the
+     * live call to the selected devices, or the defaults when they disappear.
+     * Returns a function that stops watching.
+     */
+    watchDevices = (): (() => void) => {
+        const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined
+        if (!mediaDevices?.addEventListener) return () => {}
+
+        const handleDeviceChange = async () => {
+            const result = await this.refreshDevices()
+            if (!result) return
+            const { selectedInputId, selectedOutputId } = this.store.getState().devices
+            const hasDevice =
+                (list: AudioDeviceInfo[]) =>
+                (id: string | null): id is string =>
+                    !!id && list.some((d) => d.deviceId === id)
+            const hasInput = hasDevice(result.inputs)
+            const hasOutput = hasDevice(result.outputs)
+
+            // The stored choice is kept, so the headset is picked up again when re-plugged
+            applySinkId(
+                this.refs.remoteAudioRef.current,
+                hasOutput(selectedOutputId) ? selectedOutputId : '',
+            )
+
+            // The raw microphone track (the sent one may come from a processing chain)
+            const track = this.refs.localAudioPipelineRef.current?.inputStream.getAudioTracks()[0]
+            if (!track || !this.refs.pcRef.current) return
+            const currentId = track.getSettings().deviceId ?? null
+            const wanted = hasInput(selectedInputId) ? selectedInputId : null
+            const currentGone =
+                track.readyState === 'ended' || (!!currentId && !hasInput(currentId))
+
+            if (currentGone || (wanted && wanted !== currentId)) {
+                logDebug('Audio devices changed, switching microphone to:', wanted || 'default')
+                try {
+                    await this.switchLiveMicrophone()
+                } catch (e) {
+                    logger.error('Failed to switch microphone after device change:', e)
+                    this.fail('microphone', e)
+                }
+            }
+        }
+
+        mediaDevices.addEventListener('devicechange', handleDeviceChange)
+        return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange)
+    }
+
+    /**
+     * Sample RTCPeerConnection.getStats() every `intervalMs` while a call is answered.
+     * Samples go to `callStats` in the store and the `callStats` event; the last sample of
+     * a call is kept until the next call starts. Returns a function that stops sampling.
+     */
+    watchCallStats = (intervalMs = 2000): (() => void) => {
+        let stopSampling: (() => void) | null = null
+
+        const startSampling = () => {
+            const { setCallStats } = this.store.getState()
+            // New call (or resumed sampling): start without a previous sample to diff against
+            setCallStats(null)
+            let cancelled = false
+
+            const sample = async () => {
+                const pc = this.refs.pcRef.current
+                if (!pc) return
+                try {
+                    const report = await pc.getStats()
+                    if (cancelled) return
+                    const stats = parseCallStats(report, this.store.getState().callStats)
+                    logDebug('Call stats:', stats)
+                    setCallStats(stats)
+                } catch (e) {
+                    logger.warn('getStats failed:', e)
+                }
+            }
+
+            sample()
+            const interval = setInterval(sample, intervalMs)
+            return () => {
+                cancelled = true
+                clearInterval(interval)
+            }
+        }
+
+        const update = (inCall: boolean) => {
+            stopSampling?.()
+            stopSampling = inCall ? startSampling() : null
+        }
+        update(this.store.getState().connection.inCall)
+        const unsubscribe = this.store.subscribe((state) => state.connection.inCall, update)
+
+        return () => {
+            unsubscribe()
+            stopSampling?.()
+        }
+    }
+
+    // =========================================================================
+    // ICE Restart
+    // =========================================================================
+
+    private clearIceRestartTimer() {
+        const { iceRestartTimerRef } = this.refs
+        if (iceRestartTimerRef.current) {
+            clearTimeout(iceRestartTimerRef.current)
+            iceRestartTimerRef.current = null
+        }
+    }
+
+    // ICE is connected again
+    private finishMediaRecovery() {
+        this.clearIceRestartTimer()
+        this.refs.iceRestartAttemptRef.current = 0
+        const { connection, setMediaRecovering, setStatus } = this.store.getState()
+        if (!connection.mediaRecovering) return
+        logDebug('Media recovered')
+        setMediaRecovering(false)
+        setStatus(connection.held ? 'On Hold' : 'In Call')
+    }
+
+    private giveUpMediaRecovery() {
+        const { iceRestartAttemptRef } = this.refs
+        logger.warn(`Media not recovered after ${iceRestartAttemptRef.current} ICE restarts`)
+        this.clearIceRestartTimer()
+        iceRestartAttemptRef.current = 0
+        const { setMediaRecovering, setStatus } = this.store.getState()
+        setMediaRecovering(false)
+        setStatus('Call dropped: network lost')
+        this.fail('ice restart', new Error('Media not recovered'))
+        this.hangup('network lost')
+    }
+
+    // Restart after `delayMs` unless ICE is connected by then
+    private scheduleIceRestart(reason: string, delayMs: number) {
+        const { pcRef, iceRestartTimerRef } = this.refs
+        this.clearIceRestartTimer()
+        iceRestartTimerRef.current = setTimeout(() => {
+            iceRestartTimerRef.current = null
+            const pc = pcRef.current
+            if (pc && isIceConnected(pc)) {
+                this.finishMediaRecovery()
+                return
+            }
+            this.restartIce(reason)
+        }, delayMs)
+    }
+
+    /**
+     * Restart ICE for the active call: a new offer with `iceRestart: true` goes through the
+     * SIP plugin `update` request (a re-INVITE). While media is being recovered
+     * `connection.mediaRecovering` is set. If ICE has not recovered after an attempt,
+     * another one follows with exponential backoff; after ICE_RESTART_MAX_ATTEMPTS the
+     * call is hung up. Runs on its own on ICE failure and network changes.
+     */
+    restartIce = async (reason = 'manual'): Promise<boolean> => {
+        const { pcRef, iceRestartAttemptRef, iceRestartPendingRef } = this.refs
+        const pc = pcRef.current
+        const { connection, setMediaRecovering, setStatus } = this.store.getState()
+        if (!pc || !connection.inCall || iceRestartPendingRef.current) return false
+
+        const attempt = iceRestartAttemptRef.current
+        if (attempt >= ICE_RESTART_MAX_ATTEMPTS) {
+            this.giveUpMediaRecovery()
+            return false
+        }
+        this.clearIceRestartTimer()
+        iceRestartAttemptRef.current = attempt + 1
+        iceRestartPendingRef.current = true
+        setMediaRecovering(true)
+        setStatus('Recovering media...')
+        logDebug(`ICE restart ${attempt + 1}/${ICE_RESTART_MAX_ATTEMPTS}:`, reason)
+
+        try {
+            const offer = await pc.createOffer({ iceRestart: true })
+            await pc.setLocalDescription(offer)
+            await this.sendMessage({
+                janus: 'message',
+                body: { request: 'update' },
+                jsep: { type: offer.type, sdp: offer.sdp },
+            })
+        } catch (e) {
+            logger.warn('ICE restart failed:', e)
+        } finally {
+            iceRestartPendingRef.current = false
+        }
+
+        if (pcRef.current !== pc) return true
+        // ICE may have reconnected while the update was in flight
+        if (isIceConnected(pc)) {
+            this.finishMediaRecovery()
+            return true
+        }
+        // Try again unless ICE reports connected in the meantime (see finishMediaRecovery)
+        this.scheduleIceRestart(
+            'not recovered after restart',
+            computeBackoffDelay(attempt, ICE_RESTART_BACKOFF),
+        )
+        return true
+    }
+
+    private handleIceStateChange(pc: RTCPeerConnection) {
+        const { pcRef, iceRestartTimerRef, iceRestartPendingRef } = this.refs
+        const state = pc.iceConnectionState
+        logDebug('ICE state:', state)
+        if (pc !== pcRef.current) return
+
+        switch (state) {
+            case 'connected':
+            case 'completed':
+                this.finishMediaRecovery()
+                break
+            case 'disconnected':
+                // Often recovers by itself (e.g. a short Wi-Fi hiccup); restart if it does not
+                if (!iceRestartTimerRef.current && !iceRestartPendingRef.current) {
+                    this.scheduleIceRestart('ice disconnected', ICE_DISCONNECTED_GRACE_MS)
+                }
+                break
+            case 'failed':
+                this.restartIce('ice failed')
+                break
+        }
+    }
+
+    // Restart ICE when the network changes during a call (e.g. Wi-Fi to Ethernet) instead
+    // of waiting for the old candidate pair to time out. If ICE is still connected once the
+    // events settle, the call is left alone
+    private watchNetwork() {
+        if (typeof window === 'undefined') return null
+
+        // Several events usually fire for one change; they collapse into one check
+        const onNetworkChange = (event: Event) => {
+            logDebug('Network change during call:', event.type)
+            this.scheduleIceRestart(`network ${event.type}`, NETWORK_CHANGE_RESTART_DELAY_MS)
+        }
+        const connection = (navigator as NavigatorWithConnection).connection
+
+        window.addEventListener('online', onNetworkChange)
+        connection?.addEventListener('change', onNetworkChange)
+        return () => {
+            window.removeEventListener('online', onNetworkChange)
+            connection?.removeEventListener('change', onNetworkChange)
+        }
+    }
+}
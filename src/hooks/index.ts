@@ -1,11 +1,21 @@
 export { useSendMessage } from './useSendMessage'
+export { useActionConfirmation } from './useActionConfirmation'
+export { useAsyncActions } from './useAsyncActions'
 export { useSendDtmf } from './useSendDtmf'
+export { useAudioDevices } from './useAudioDevices'
+export { useCallStats } from './useCallStats'
 export { useCleanupCall } from './useCleanupCall'
 export { useCleanupJanus } from './useCleanupJanus'
 export { useEnableAudio } from './useEnableAudio'
 export { useInitializeForCall } from './useInitializeForCall'
 export { useInitJanus } from './useInitJanus'
+export { useHoldCall } from './useHoldCall'
+export { useIncomingCall } from './useIncomingCall'
 export { useMakeCall } from './useMakeCall'
+export { useMediaRecovery } from './useMediaRecovery'
+export { useMute } from './useMute'
+export { useRefreshWsToken } from './useRefreshWsToken'
 export { useRequestCallToken } from './useRequestCallToken'
 export { useSelectionTracking } from './useSelectionTracking'
+export { useTelphiClient } from './useTelphiClient'
 export { useTryPlayAudio } from './useTryPlayAudio'
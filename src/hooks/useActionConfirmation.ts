@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import type { ActionConfirmationRequest, ActionConfirmHandler } from '../actions/actionPolicy'
+
+interface QueuedConfirmation extends ActionConfirmationRequest {
+    resolve: (approved: boolean) => void
+}
+
+/**
+ * Queue of actions waiting for the user's consent, for a confirmation UI. `pending` is
+ * the request to show; `respond` answers it and moves on to the next one. A request
+ * whose action times out or is cancelled leaves the queue by itself.
+ */
+export const useActionConfirmation = () => {
+    const queueRef = useRef<QueuedConfirmation[]>([])
+    const [pending, setPending] = useState<ActionConfirmationRequest | null>(null)
+
+    const requestConfirmation: ActionConfirmHandler = useCallback(
+        (request) =>
+            new Promise<boolean>((resolve) => {
+                const entry: QueuedConfirmation = { ...request, resolve }
+                queueRef.current.push(entry)
+                if (queueRef.current.length === 1) setPending(request)
+                request.signal?.addEventListener(
+                    'abort',
+                    () => {
+                        const wasShown = queueRef.current[0] === entry
+                        queueRef.current = queueRef.current.filter((queued) => queued !== entry)
+                        resolve(false)
+                        if (wasShown) setPending(queueRef.current[0] ?? null)
+                    },
+                    { once: true },
+                )
+            }),
+        [],
+    )
+
+    const respond = useCallback((approved: boolean) => {
+        const [current, ...rest] = queueRef.current
+        if (!current) return
+        queueRef.current = rest
+        current.resolve(approved)
+        setPending(rest[0] ?? null)
+    }, [])
+
+    // Decline everything still waiting (e.g. when the call ends)
+    const declineAll = useCallback(() => {
+        const queue = queueRef.current
+        queueRef.current = []
+        queue.forEach(({ resolve }) => resolve(false))
+        setPending(null)
+    }, [])
+
+    useEffect(() => declineAll, [declineAll])
+
+    return { pending, requestConfirmation, respond, declineAll }
+}
@@ -0,0 +1,25 @@
+import type { AsyncActionEntry } from '../channel/asyncActionTracker'
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+
+// Latest progress message, else what the action is about
+const describeAsyncAction = ({ progress, description, name }: AsyncActionEntry): string =>
+    progress.at(-1)?.message ?? description ?? name
+
+/**
+ * Async actions the AI is waiting on (actions that returned `{ async: true }` and have
+ * not sent their final result), for showing progress such as "Assistant is filling your
+ * form…". Filled in by `<WebRTCPhone>`; with `useCallChannel` pass
+ * `onAsyncActionsChange: useWebRTCPhoneStore.getState().setAsyncActions`.
+ */
+export const useAsyncActions = () => {
+    const asyncActions = useWebRTCPhoneStore((state) => state.asyncActions)
+    const latest = asyncActions.at(-1)
+
+    return {
+        asyncActions,
+        /** Whether any async action is in flight */
+        busy: asyncActions.length > 0,
+        /** Text for the most recent action: its last progress message or its description */
+        activity: latest ? describeAsyncAction(latest) : null,
+    }
+}
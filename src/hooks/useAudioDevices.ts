@@ -0,0 +1,38 @@
+'use client'
+
+import { useEffect } from 'react'
+
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+import { applySinkId } from '../utils'
+
+import { useTelphiClient } from './useTelphiClient'
+
+/**
+ * Microphone and speaker selection.
+ *
+ * Keeps `devices` in the store up to date (on mount, when a call starts and on
+ * `devicechange`), applies the selected speaker to the remote audio element via
+ * setSinkId and swaps the live microphone track when the selection changes or the
+ * device in use is unplugged. The choice is persisted in localStorage.
+ */
+export const useAudioDevices = () => {
+    const devices = useWebRTCPhoneStore((state) => state.devices)
+    const inCall = useWebRTCPhoneStore((state) => state.connection.inCall)
+    const client = useTelphiClient()
+    const { refreshDevices, selectInputDevice, selectOutputDevice } = client
+
+    // Enumerate on mount and again once a call starts (labels need mic permission)
+    useEffect(() => {
+        refreshDevices()
+    }, [refreshDevices, inCall])
+
+    // Route remote audio to the selected speaker
+    useEffect(() => {
+        applySinkId(client.refs.remoteAudioRef.current, devices.selectedOutputId ?? '')
+    }, [client, devices.selectedOutputId])
+
+    // Hot-swap: follow unplugged / re-plugged headsets
+    useEffect(() => client.watchDevices(), [client])
+
+    return { ...devices, selectInputDevice, selectOutputDevice, refreshDevices }
+}
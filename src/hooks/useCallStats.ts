@@ -0,0 +1,34 @@
+'use client'
+
+import { useEffect } from 'react'
+
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+
+import { useTelphiClient } from './useTelphiClient'
+
+interface UseCallStatsOptions {
+    /** Sampling interval in ms. Default: 2000 */
+    intervalMs?: number
+    /** Set to false to stop sampling. Default: true */
+    enabled?: boolean
+}
+
+/**
+ * Periodically samples RTCPeerConnection.getStats() while a call is answered and stores
+ * the result in the WebRTC phone store (`callStats`).
+ *
+ * Mount it once (the built-in <WebRTCPhone> does); other components can read the samples
+ * with `useWebRTCPhoneStore(selectCallStats)`. The last sample of a call is kept until
+ * the next call starts.
+ */
+export const useCallStats = ({ intervalMs = 2000, enabled = true }: UseCallStatsOptions = {}) => {
+    const callStats = useWebRTCPhoneStore((state) => state.callStats)
+    const client = useTelphiClient()
+
+    useEffect(() => {
+        if (!enabled) return
+        return client.watchCallStats(intervalMs)
+    }, [client, enabled, intervalMs])
+
+    return callStats
+}
@@ -1,22 +1,4 @@
-import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
-import { webrtcRefs } from '../stores/webrtcRefsStore'
-import { logDebug, logger } from '../utils'
+import { useTelphiClient } from './useTelphiClient'
 
 // Enable audio on user interaction (click)
-export const useEnableAudio = () => {
-    const { remoteAudioRef } = webrtcRefs
-    const setAudioBlocked = useWebRTCPhoneStore((state) => state.setAudioBlocked)
-
-    return async () => {
-        const audio = remoteAudioRef.current
-        if (!audio) return
-
-        try {
-            await audio.play()
-            logDebug('Audio enabled after user interaction')
-            setAudioBlocked(false)
-        } catch (error) {
-            logger.error('Failed to enable audio:', error)
-        }
-    }
-}
+export const useEnableAudio = () => useTelphiClient().playRemoteAudio
@@ -0,0 +1,18 @@
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+
+import { useTelphiClient } from './useTelphiClient'
+
+/**
+ * Put the active call on hold and resume it via the Janus SIP plugin
+ * `hold` / `unhold` requests.
+ *
+ * The store only moves to `held` / back to `active` once Janus confirms with the
+ * `holding` / `resuming` events.
+ */
+export const useHoldCall = () => {
+    const held = useWebRTCPhoneStore((state) => state.connection.held)
+    const heldBy = useWebRTCPhoneStore((state) => state.connection.heldBy)
+    const { hold, resume, toggleHold } = useTelphiClient()
+
+    return { held, heldBy, hold, resume, toggleHold }
+}
@@ -0,0 +1,17 @@
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+
+import { useTelphiClient } from './useTelphiClient'
+
+/**
+ * Answer or reject the ringing inbound call.
+ *
+ * `acceptCall()` acquires the microphone, answers the offer with a local SDP answer and
+ * sends it through the SIP plugin `accept` request; `declineCall()` sends `decline` with
+ * the given SIP status code.
+ */
+export const useIncomingCall = () => {
+    const incomingCall = useWebRTCPhoneStore((state) => state.incomingCall)
+    const { acceptCall, declineCall } = useTelphiClient()
+
+    return { incomingCall, acceptCall, declineCall }
+}
@@ -0,0 +1,16 @@
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+
+import { useTelphiClient } from './useTelphiClient'
+
+/**
+ * Media recovery state of the active call.
+ *
+ * The client restarts ICE on its own when ICE fails or the network changes during a call
+ * (`online` and Network Information `change` events); `restartIce()` triggers one manually.
+ */
+export const useMediaRecovery = () => {
+    const mediaRecovering = useWebRTCPhoneStore((state) => state.connection.mediaRecovering)
+    const { restartIce } = useTelphiClient()
+
+    return { mediaRecovering, restartIce }
+}
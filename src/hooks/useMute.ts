@@ -0,0 +1,16 @@
+import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
+
+import { useTelphiClient } from './useTelphiClient'
+
+/**
+ * Microphone mute control for the active call.
+ *
+ * Muting disables the local audio tracks (no renegotiation); the choice is kept in the
+ * store and re-applied whenever a new local stream is created (new call, reconnect).
+ */
+export const useMute = () => {
+    const muted = useWebRTCPhoneStore((state) => state.connection.muted)
+    const { setMuted, toggleMute } = useTelphiClient()
+
+    return { muted, setMuted, toggleMute }
+}
@@ -0,0 +1,4 @@
+import { useTelphiClient } from './useTelphiClient'
+
+// Refresh the call channel token (see TelphiClient.refreshWsToken)
+export const useRefreshWsToken = () => useTelphiClient().refreshWsToken
@@ -0,0 +1,7 @@
+import { defaultTelphiClient } from '../client'
+
+/**
+ * The TelphiClient behind `<WebRTCPhone>` and the other hooks. Use it to subscribe to
+ * client events or call methods that have no dedicated hook.
+ */
+export const useTelphiClient = () => defaultTelphiClient
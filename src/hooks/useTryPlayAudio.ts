@@ -1,27 +1,4 @@
-import { useWebRTCPhoneStore } from '../stores/webrtcPhoneStore'
-import { webrtcRefs } from '../stores/webrtcRefsStore'
-import { logDebug, logger } from '../utils'
+import { useTelphiClient } from './useTelphiClient'
 
 // Try to play remote audio, track if blocked by autoplay policy
-export const useTryPlayAudio = () => {
-    const setAudioBlocked = useWebRTCPhoneStore((state) => state.setAudioBlocked)
-    const { remoteAudioRef } = webrtcRefs
-
-    return async () => {
-        const audio = remoteAudioRef.current
-        if (!audio || !audio.srcObject) return
-
-        try {
-            await audio.play()
-            logDebug('Audio playback started successfully')
-            setAudioBlocked(false)
-        } catch (error) {
-            if (error instanceof Error && error.name === 'NotAllowedError') {
-                logDebug('Audio playback blocked - needs user interaction')
-                setAudioBlocked(true)
-            } else {
-                logger.error('Audio playback failed:', error)
-            }
-        }
-    }
-}
+export const useTryPlayAudio = () => useTelphiClient().playRemoteAudio
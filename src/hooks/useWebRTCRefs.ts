@@ -17,6 +17,7 @@ export const useWebRTCRefs = () => {
     const initializedRef = useRef(false)
     const pendingCandidatesRef = useRef<Array<Record<string, unknown> | null>>([])
     const remoteDescriptionSetRef = useRef(false)
+    const incomingJsepRef = useRef<{ type: string; sdp?: string } | null>(null) // Offer of a ringing incoming call
 
     return {
         wsRef,
@@ -33,5 +34,6 @@ export const useWebRTCRefs = () => {
         initializedRef,
         pendingCandidatesRef,
         remoteDescriptionSetRef,
+        incomingJsepRef,
     }
 }
@@ -7,48 +7,138 @@ export { WebRTCConfigInit } from './WebRTCConfigInit'
 export type {
     WebRTCConfig,
     WebRTCPhoneProps,
+    WebRTCPhoneEvents,
+    WebRTCPhoneEventCallbacks,
+    CallInfo,
+    CallEndedInfo,
     IceServer,
     InitiateCallParams,
+    DialPlanConfig,
+    SipRegistrationConfig,
+    AudioConfig,
+    AudioProcessingConfig,
     PersistedCallState,
+    AudioDevicePreferences,
     CallTokenResponse,
+    WsTokenRefreshResponse,
+    JanusTransportKind,
+    JanusTransportMode,
     Logger,
 } from './types'
 
 // Phone Store (internal state - exposed for advanced use cases)
-export { useWebRTCPhoneStore } from './stores/webrtcPhoneStore'
+export {
+    useWebRTCPhoneStore,
+    selectCallPhase,
+    selectCallStats,
+    selectAsyncActions,
+} from './stores/webrtcPhoneStore'
 export { webrtcRefs } from './stores/webrtcRefsStore'
 
 export type {
     WebRTCPhoneConnectionState,
     WebRTCPhoneCallData,
     WebRTCPhoneDerivedUrls,
+    HoldInitiator,
+    IncomingCallInfo,
+    WebRTCPhoneDevicesState,
+    SignalingState,
 } from './stores/webrtcPhoneStore'
+export type {
+    CallPhase,
+    CallPhaseTransition,
+    CallQuality,
+    CallStats,
+    CandidateType,
+    AudioDeviceInfo,
+    SipRegistrationErrorKind,
+    JanusTransport,
+} from './utils'
+
+// Client (framework-agnostic core)
+export { TelphiClient, defaultTelphiClient } from './client'
+export type { TelphiClientEvents, TelphiClientOptions } from './client'
+export type { WebRTCPhoneStoreApi } from './stores/webrtcPhoneStore'
+export type { WebRTCRefs } from './stores/webrtcRefsStore'
 
 // Channel
-export { useCallChannel } from './channel'
+export {
+    useCallChannel,
+    ChannelOutbox,
+    ActionExecutor,
+    AsyncActionTracker,
+    ChannelProtocolError,
+    ChannelRequestError,
+    parseChannelMessage,
+} from './channel'
 export type {
     UseCallChannelOptions,
     UseCallChannelReturn,
     ConnectionState,
     ActionHandler,
+    ActionTimeoutControl,
     MessageHandler,
     ActionResult,
     SyncActionResult,
     AsyncActionResult,
+    ChannelReconnectPolicy,
+    ChannelRequestOptions,
+    ChannelRequestErrorCode,
+    ConversationContext,
+    ChannelValidationMode,
+    ChannelOutboxOptions,
+    ChannelOutboxCounts,
+    ActionExecutorOptions,
+    ActionExecutorCounts,
+    AsyncActionEntry,
+    AsyncActionFinish,
 } from './channel'
 
+// Browser actions
+export {
+    ActionRegistry,
+    defaultActionRegistry,
+    registerAction,
+    registerBuiltinActions,
+    formatActionCatalog,
+    evaluateActionPolicy,
+    isActionListed,
+    describeAction,
+    runWithPolicy,
+} from './actions'
+export type {
+    ActionPolicy,
+    ActionPolicyDecision,
+    ActionConfirmationRequest,
+    ActionConfirmHandler,
+    ActionCatalogEntry,
+    ActionContext,
+    ActionDefinition,
+    ActionRegistryEvents,
+} from './actions'
+
 // Hooks (for custom integrations)
 export {
     useSendMessage,
+    useActionConfirmation,
+    useAsyncActions,
+    useAudioDevices,
+    useCallStats,
     useSendDtmf,
     useCleanupCall,
     useCleanupJanus,
     useEnableAudio,
     useInitializeForCall,
     useInitJanus,
+    useHoldCall,
+    useIncomingCall,
     useMakeCall,
+    useMediaRecovery,
+    useMute,
     useRequestCallToken,
+    useRefreshWsToken,
     useSelectionTracking,
+    useTelphiClient,
     useTryPlayAudio,
 } from './hooks'
 
@@ -59,9 +149,18 @@ export {
     getDerivedUrls,
     animationStyles,
     playDtmfTone,
+    startRingtone,
     setAudioCodecPreferences,
+    setStreamMuted,
     saveCallState,
     loadCallState,
     clearCallState,
     CALL_STATE_STORAGE_KEY,
+    canTransitionCallPhase,
+    normalizePhoneNumber,
+    buildDialTarget,
+    SipRegistrationError,
+    computeMos,
+    parseCallStats,
+    openJanusTransport,
 } from './utils'
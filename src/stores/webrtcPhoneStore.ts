@@ -1,9 +1,33 @@
-import { create } from 'zustand'
+import { useStore } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
+import { createStore } from 'zustand/vanilla'
 
+import type { AsyncActionEntry } from '../channel/asyncActionTracker'
 import type { IceServer, PersistedCallState, WebRTCConfig, InitiateCallParams } from '../types'
-import { clearCallState, getDerivedUrls, loadCallState, logDebug } from '../utils'
+import {
+    canTransitionCallPhase,
+    clearCallState,
+    deriveConnectionFlags,
+    getDerivedUrls,
+    loadCallState,
+    loadDevicePreferences,
+    logDebug,
+    logger,
+    MAX_CALL_PHASE_HISTORY,
+    saveCallState,
+    saveDevicePreferences,
+    setStreamMuted,
+} from '../utils'
+import type {
+    AudioDeviceInfo,
+    CallPhase,
+    CallPhaseTransition,
+    CallStats,
+    SipRegistrationError,
+} from '../utils'
 import { setlogger } from '../utils/sdkLogger'
+
+import { webrtcRefs, type WebRTCRefs } from './webrtcRefsStore'
 /**
  * UI-related state for the WebRTC phone
  */
@@ -15,19 +39,78 @@ export interface WebRTCPhoneUIState {
     selectedText: string
 }
 
+/**
+ * State of the Janus signalling connection (WebSocket or HTTP)
+ */
+export type SignalingState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
 /**
  * Connection state for the WebRTC phone
  */
 export interface WebRTCPhoneConnectionState {
+    /** Call lifecycle phase - the single source of truth for the derived flags below */
+    callPhase: CallPhase
+    /** Recent phase transitions, oldest first (capped at MAX_CALL_PHASE_HISTORY) */
+    phaseHistory: CallPhaseTransition[]
+    /** Derived from callPhase */
     connected: boolean
+    /** Derived from callPhase */
     registered: boolean
+    /** Derived from callPhase (dialing, ringing or early_media) */
     calling: boolean
+    /** Derived from callPhase (active or held) */
     inCall: boolean
+    /** Derived from callPhase (held) */
+    held: boolean
+    /** Who put the call on hold while held, otherwise null */
+    heldBy: HoldInitiator | null
     initialized: boolean
+    /** Reconnecting to a persisted call after a page reload */
     reconnecting: boolean
+    /** Janus signalling connection; `reconnecting` while a lost one is re-established */
+    signalingState: SignalingState
+    /** ICE is being restarted to recover the call's media path (see TelphiClient.restartIce) */
+    mediaRecovering: boolean
+    /** Local microphone muted (audio tracks disabled) */
+    muted: boolean
+    /** Last SIP registration failure, cleared once registered again */
+    registrationError: SipRegistrationError | null
     status: string
 }
 
+/**
+ * Audio devices and the user's choice (null = system default)
+ */
+export interface WebRTCPhoneDevicesState {
+    inputs: AudioDeviceInfo[]
+    outputs: AudioDeviceInfo[]
+    selectedInputId: string | null
+    selectedOutputId: string | null
+}
+
+/**
+ * Caller details of a ringing inbound call
+ */
+export interface IncomingCallInfo {
+    /** Caller SIP URI */
+    callerUri: string
+    /** Caller display name, if provided */
+    callerName?: string
+    /** Called SIP URI, if provided */
+    calleeUri?: string
+    /** SIP Call-ID of the INVITE */
+    sipCallId?: string
+    /** SIP headers of the INVITE as reported by Janus */
+    headers: Record<string, string>
+    /** Timestamp (ms) when the call arrived */
+    receivedAt: number
+}
+
+/**
+ * Side that put the call on hold
+ */
+export type HoldInitiator = 'local' | 'remote'
+
 /**
  * Call data for the active call
  */
@@ -35,6 +118,8 @@ export interface WebRTCPhoneCallData {
     endpointId: string
     endpointName: string
     appName: string
+    /** Dialed number (E.164), empty when calling the endpoint without a number */
+    phoneNumber: string
     currentCallId: string | null
     currentWsToken: string | null
     telproDomain: string | null
@@ -57,7 +142,7 @@ export interface WebRTCPhoneDerivedUrls {
 /**
  * Complete WebRTC phone store interface
  */
-interface IWebRTCPhoneStore {
+export interface IWebRTCPhoneStore {
     // UI State
     ui: WebRTCPhoneUIState
     setOpen: (open: boolean) => void
@@ -68,12 +153,22 @@ interface IWebRTCPhoneStore {
 
     // Connection State
     connection: WebRTCPhoneConnectionState
-    setConnected: (connected: boolean) => void
-    setRegistered: (registered: boolean) => void
-    setCalling: (calling: boolean) => void
-    setInCall: (inCall: boolean) => void
+    // Move the call lifecycle to a new phase. Invalid transitions are rejected (returns false).
+    // `registrationLost` clears `registered`/`connected`, which `ended`/`failed` keep otherwise
+    transitionCallPhase: (
+        phase: CallPhase,
+        reason?: string,
+        options?: { registrationLost?: boolean },
+    ) => boolean
+    // Enter or leave the held phase, recording which side initiated the hold
+    setHeld: (held: boolean, heldBy?: HoldInitiator) => boolean
     setInitialized: (initialized: boolean) => void
     setReconnecting: (reconnecting: boolean) => void
+    setSignalingState: (signalingState: SignalingState) => void
+    setMediaRecovering: (mediaRecovering: boolean) => void
+    // Mute/unmute the local microphone (applied to the live stream and persisted for reconnects)
+    setMuted: (muted: boolean) => void
+    setRegistrationError: (registrationError: SipRegistrationError | null) => void
     setStatus: (status: string) => void
 
     // Call Data
@@ -108,6 +203,25 @@ interface IWebRTCPhoneStore {
     webrtcConfig: WebRTCConfig
     setWebRTCConfig: (config: WebRTCConfig) => void
 
+    // Inbound call currently ringing (null when none)
+    incomingCall: IncomingCallInfo | null
+    setIncomingCall: (incomingCall: IncomingCallInfo | null) => void
+
+    // Audio devices (see useAudioDevices)
+    devices: WebRTCPhoneDevicesState
+    setAudioDevices: (inputs: AudioDeviceInfo[], outputs: AudioDeviceInfo[]) => void
+    // Select microphone/speaker (persisted). Does not touch live media - see useAudioDevices
+    setSelectedInputId: (deviceId: string | null) => void
+    setSelectedOutputId: (deviceId: string | null) => void
+
+    // Latest audio quality sample (see useCallStats)
+    callStats: CallStats | null
+    setCallStats: (callStats: CallStats | null) => void
+
+    // Async actions the AI is waiting on (see useAsyncActions)
+    asyncActions: AsyncActionEntry[]
+    setAsyncActions: (asyncActions: AsyncActionEntry[]) => void
+
     // WebRTC phone call initiation
     pendingCall: InitiateCallParams | null
     initiateCall: (params: InitiateCallParams) => void
@@ -123,12 +237,20 @@ const initialUIState: WebRTCPhoneUIState = {
 }
 
 const initialConnectionState: WebRTCPhoneConnectionState = {
+    callPhase: 'idle',
+    phaseHistory: [],
     connected: false,
     registered: false,
     calling: false,
     inCall: false,
+    held: false,
+    heldBy: null,
     initialized: false,
     reconnecting: false,
+    signalingState: 'disconnected',
+    mediaRecovering: false,
+    muted: false,
+    registrationError: null,
     status: 'Disconnected',
 }
 
@@ -136,257 +258,406 @@ const initialCallData: WebRTCPhoneCallData = {
     endpointId: '',
     endpointName: '',
     appName: '',
+    phoneNumber: '',
     currentCallId: null,
     currentWsToken: null,
     telproDomain: null,
     dtmfDigits: '',
 }
 
-export const useWebRTCPhoneStore = create<IWebRTCPhoneStore>()(
-    subscribeWithSelector((set, get) => ({
-        // UI State
-        ui: initialUIState,
-        setOpen: (open) =>
-            set((state) => (state.ui.open === open ? state : { ui: { ...state.ui, open } })),
-        setDialpadOpen: (dialpadOpen) =>
-            set((state) =>
-                state.ui.dialpadOpen === dialpadOpen ? state : { ui: { ...state.ui, dialpadOpen } },
-            ),
-        setChatOpen: (chatOpen) =>
-            set((state) =>
-                state.ui.chatOpen === chatOpen ? state : { ui: { ...state.ui, chatOpen } },
-            ),
-        setAudioBlocked: (audioBlocked) =>
-            set((state) =>
-                state.ui.audioBlocked === audioBlocked
-                    ? state
-                    : { ui: { ...state.ui, audioBlocked } },
-            ),
-        setSelectedText: (selectedText) =>
-            set((state) =>
-                state.ui.selectedText === selectedText
-                    ? state
-                    : { ui: { ...state.ui, selectedText } },
-            ),
-
-        // Connection State
-        connection: initialConnectionState,
-        setConnected: (connected) =>
-            set((state) =>
-                state.connection.connected === connected
-                    ? state
-                    : { connection: { ...state.connection, connected } },
-            ),
-        setRegistered: (registered) =>
-            set((state) =>
-                state.connection.registered === registered
-                    ? state
-                    : { connection: { ...state.connection, registered } },
-            ),
-        setCalling: (calling) =>
-            set((state) =>
-                state.connection.calling === calling
-                    ? state
-                    : { connection: { ...state.connection, calling } },
-            ),
-        setInCall: (inCall) =>
-            set((state) =>
-                state.connection.inCall === inCall
-                    ? state
-                    : { connection: { ...state.connection, inCall } },
-            ),
-        setInitialized: (initialized) =>
-            set((state) =>
-                state.connection.initialized === initialized
-                    ? state
-                    : { connection: { ...state.connection, initialized } },
-            ),
-        setReconnecting: (reconnecting) =>
-            set((state) =>
-                state.connection.reconnecting === reconnecting
-                    ? state
-                    : { connection: { ...state.connection, reconnecting } },
-            ),
-        setStatus: (status) =>
-            set((state) =>
-                state.connection.status === status
-                    ? state
-                    : { connection: { ...state.connection, status } },
-            ),
-
-        // Call Data
-        callData: initialCallData,
-        setAppEndpointName: (endpointId, endpointName, appName) => {
-            set((state) => ({
-                callData: { ...state.callData, endpointId, endpointName, appName },
-            }))
-        },
-        setEndpointId: (endpointId) =>
-            set((state) =>
-                state.callData.endpointId === endpointId
-                    ? state
-                    : { callData: { ...state.callData, endpointId } },
-            ),
-        setEndpointName: (endpointName) =>
-            set((state) =>
-                state.callData.endpointName === endpointName
-                    ? state
-                    : { callData: { ...state.callData, endpointName } },
-            ),
-        setAppName: (appName) =>
-            set((state) =>
-                state.callData.appName === appName
-                    ? state
-                    : { callData: { ...state.callData, appName } },
-            ),
-        setCurrentCallId: (currentCallId) =>
-            set((state) =>
-                state.callData.currentCallId === currentCallId
-                    ? state
-                    : { callData: { ...state.callData, currentCallId } },
-            ),
-        setCurrentWsToken: (currentWsToken) =>
-            set((state) =>
-                state.callData.currentWsToken === currentWsToken
-                    ? state
-                    : { callData: { ...state.callData, currentWsToken } },
-            ),
-        setTelproDomain: (telproDomain) =>
-            set((state) =>
-                state.callData.telproDomain === telproDomain
-                    ? state
-                    : { callData: { ...state.callData, telproDomain } },
-            ),
-        setDtmfDigits: (dtmfDigits) =>
-            set((state) =>
-                state.callData.dtmfDigits === dtmfDigits
-                    ? state
-                    : { callData: { ...state.callData, dtmfDigits } },
-            ),
-        appendDtmfDigit: (digit) =>
-            set((state) => ({
-                callData: { ...state.callData, dtmfDigits: state.callData.dtmfDigits + digit },
-            })),
-        clearDtmfDigits: () =>
-            set((state) =>
-                state.callData.dtmfDigits === ''
-                    ? state
-                    : { callData: { ...state.callData, dtmfDigits: '' } },
-            ),
-
-        setCallData: (data: Partial<WebRTCPhoneCallData>) =>
-            set((state) => ({
-                callData: { ...state.callData, ...data },
-            })),
-
-        // Derived URLs
-        getDerivedUrlsFor: (apiDomain: string): WebRTCPhoneDerivedUrls => {
-            const { telproDomain, apiUrl, janusUrl, iceServers } = get().callData
-            return getDerivedUrls({
-                janusDomain: telproDomain || '',
-                apiDomain,
-                janusUrl,
-                apiUrl,
-                iceServers,
-            })
-        },
-
-        // Restore persisted call state
-        restoreFromPersistedState: (): PersistedCallState | null => {
-            const storedState = loadCallState()
-            if (!storedState) return null
-
-            logDebug('Restoring persisted call state:', storedState)
-
-            set((state) => {
-                const newReconnecting = true
-                const newInitialized = !!storedState.telproDomain
-                const newEndpointId = storedState.endpointId
-                const newEndpointName = storedState.endpointName || ''
-                const newAppName = storedState.appName || ''
-                const newCallId = storedState.callId || null
-                const newWsToken = storedState.wsToken || null
-                const newTelproDomain = storedState.telproDomain || null
-
-                const connectionChanged =
-                    state.connection.reconnecting !== newReconnecting ||
-                    state.connection.initialized !== newInitialized
-                const callDataChanged =
-                    state.callData.endpointId !== newEndpointId ||
-                    state.callData.endpointName !== newEndpointName ||
-                    state.callData.appName !== newAppName ||
-                    state.callData.currentCallId !== newCallId ||
-                    state.callData.currentWsToken !== newWsToken ||
-                    state.callData.telproDomain !== newTelproDomain
-
-                if (!connectionChanged && !callDataChanged) return state
-
-                return {
-                    ...(connectionChanged
-                        ? {
-                              connection: {
-                                  ...state.connection,
-                                  reconnecting: newReconnecting,
-                                  initialized: newInitialized,
-                              },
-                          }
-                        : {}),
-                    ...(callDataChanged
-                        ? {
-                              callData: {
-                                  ...state.callData,
-                                  endpointId: newEndpointId,
-                                  endpointName: newEndpointName,
-                                  appName: newAppName,
-                                  currentCallId: newCallId,
-                                  currentWsToken: newWsToken,
-                                  telproDomain: newTelproDomain,
-                              },
-                          }
-                        : {}),
+/**
+ * Create a phone store. Every TelphiClient owns one; `setMuted` applies to the stream in `refs`.
+ */
+export const createWebRTCPhoneStore = (refs: WebRTCRefs) =>
+    createStore<IWebRTCPhoneStore>()(
+        subscribeWithSelector((set, get) => ({
+            // UI State
+            ui: initialUIState,
+            setOpen: (open) =>
+                set((state) => (state.ui.open === open ? state : { ui: { ...state.ui, open } })),
+            setDialpadOpen: (dialpadOpen) =>
+                set((state) =>
+                    state.ui.dialpadOpen === dialpadOpen
+                        ? state
+                        : { ui: { ...state.ui, dialpadOpen } },
+                ),
+            setChatOpen: (chatOpen) =>
+                set((state) =>
+                    state.ui.chatOpen === chatOpen ? state : { ui: { ...state.ui, chatOpen } },
+                ),
+            setAudioBlocked: (audioBlocked) =>
+                set((state) =>
+                    state.ui.audioBlocked === audioBlocked
+                        ? state
+                        : { ui: { ...state.ui, audioBlocked } },
+                ),
+            setSelectedText: (selectedText) =>
+                set((state) =>
+                    state.ui.selectedText === selectedText
+                        ? state
+                        : { ui: { ...state.ui, selectedText } },
+                ),
+
+            // Connection State
+            connection: initialConnectionState,
+            transitionCallPhase: (phase, reason, { registrationLost = false } = {}) => {
+                const from = get().connection.callPhase
+                if (from === phase) {
+                    // Already there (e.g. a failed call), but the registration is gone now
+                    if (registrationLost) {
+                        set((state) => ({
+                            connection: {
+                                ...state.connection,
+                                ...deriveConnectionFlags(phase, state.connection, true),
+                            },
+                        }))
+                    }
+                    return true
+                }
+                if (!canTransitionCallPhase(from, phase)) {
+                    logger.warn(
+                        `[WebRTCPhone] Invalid call phase transition: ${from} -> ${phase}`,
+                        reason ?? '',
+                    )
+                    return false
                 }
-            })
 
-            if (!storedState.telproDomain) {
-                logDebug('No telproDomain in stored state, cannot reconnect')
-                clearCallState()
+                logDebug('Call phase:', from, '->', phase, reason ?? '')
+                const transition: CallPhaseTransition = { from, to: phase, at: Date.now(), reason }
+                set((state) => ({
+                    connection: {
+                        ...state.connection,
+                        ...deriveConnectionFlags(phase, state.connection, registrationLost),
+                        heldBy: phase === 'held' ? state.connection.heldBy : null,
+                        callPhase: phase,
+                        phaseHistory: [...state.connection.phaseHistory, transition].slice(
+                            -MAX_CALL_PHASE_HISTORY,
+                        ),
+                    },
+                }))
+                return true
+            },
+            setHeld: (held, heldBy = 'local') => {
+                const { transitionCallPhase } = get()
+                const changed = transitionCallPhase(
+                    held ? 'held' : 'active',
+                    held ? `hold:${heldBy}` : 'resume',
+                )
+                if (changed && held) {
+                    set((state) => ({ connection: { ...state.connection, heldBy } }))
+                }
+                return changed
+            },
+            setInitialized: (initialized) =>
+                set((state) =>
+                    state.connection.initialized === initialized
+                        ? state
+                        : { connection: { ...state.connection, initialized } },
+                ),
+            setReconnecting: (reconnecting) =>
+                set((state) =>
+                    state.connection.reconnecting === reconnecting
+                        ? state
+                        : { connection: { ...state.connection, reconnecting } },
+                ),
+            setSignalingState: (signalingState) =>
                 set((state) =>
-                    state.connection.reconnecting === false
+                    state.connection.signalingState === signalingState
                         ? state
-                        : { connection: { ...state.connection, reconnecting: false } },
+                        : { connection: { ...state.connection, signalingState } },
+                ),
+            setMediaRecovering: (mediaRecovering) =>
+                set((state) =>
+                    state.connection.mediaRecovering === mediaRecovering
+                        ? state
+                        : { connection: { ...state.connection, mediaRecovering } },
+                ),
+            setMuted: (muted) => {
+                setStreamMuted(refs.localStreamRef.current, muted)
+                const storedState = loadCallState()
+                if (storedState && storedState.muted !== muted) {
+                    saveCallState({ ...storedState, muted })
+                }
+                set((state) =>
+                    state.connection.muted === muted
+                        ? state
+                        : { connection: { ...state.connection, muted } },
                 )
-                return null
-            }
-
-            return storedState
-        },
-
-        // Bulk resets
-        resetCallData: () => set({ callData: initialCallData }),
-        resetConnectionState: () => set({ connection: initialConnectionState }),
-        resetUIState: () => set({ ui: initialUIState }),
-        resetAll: () =>
-            set({
-                ui: initialUIState,
-                connection: initialConnectionState,
-                callData: initialCallData,
-            }),
-        // WebRTC runtime config
-        webrtcConfig: {
-            apiDomain: 'localhost',
-            apiKey: '',
-            apiUrl: undefined,
-            janusUrl: undefined,
-            iceServers: undefined,
-        },
-        setWebRTCConfig: (config) => {
-            setlogger(config.logger)
-            set({ webrtcConfig: config })
-        },
-
-        // WebRTC phone call initiation
-        pendingCall: null,
-        initiateCall: (params) => set({ pendingCall: params }),
-        clearPendingCall: () => set({ pendingCall: null }),
-    })),
-)
+            },
+            setRegistrationError: (registrationError) =>
+                set((state) =>
+                    state.connection.registrationError === registrationError
+                        ? state
+                        : { connection: { ...state.connection, registrationError } },
+                ),
+            setStatus: (status) =>
+                set((state) =>
+                    state.connection.status === status
+                        ? state
+                        : { connection: { ...state.connection, status } },
+                ),
+
+            // Call Data
+            callData: initialCallData,
+            setAppEndpointName: (endpointId, endpointName, appName) => {
+                set((state) => ({
+                    callData: { ...state.callData, endpointId, endpointName, appName },
+                }))
+            },
+            setEndpointId: (endpointId) =>
+                set((state) =>
+                    state.callData.endpointId === endpointId
+                        ? state
+                        : { callData: { ...state.callData, endpointId } },
+                ),
+            setEndpointName: (endpointName) =>
+                set((state) =>
+                    state.callData.endpointName === endpointName
+                        ? state
+                        : { callData: { ...state.callData, endpointName } },
+                ),
+            setAppName: (appName) =>
+                set((state) =>
+                    state.callData.appName === appName
+                        ? state
+                        : { callData: { ...state.callData, appName } },
+                ),
+            setCurrentCallId: (currentCallId) =>
+                set((state) =>
+                    state.callData.currentCallId === currentCallId
+                        ? state
+                        : { callData: { ...state.callData, currentCallId } },
+                ),
+            setCurrentWsToken: (currentWsToken) =>
+                set((state) =>
+                    state.callData.currentWsToken === currentWsToken
+                        ? state
+                        : { callData: { ...state.callData, currentWsToken } },
+                ),
+            setTelproDomain: (telproDomain) =>
+                set((state) =>
+                    state.callData.telproDomain === telproDomain
+                        ? state
+                        : { callData: { ...state.callData, telproDomain } },
+                ),
+            setDtmfDigits: (dtmfDigits) =>
+                set((state) =>
+                    state.callData.dtmfDigits === dtmfDigits
+                        ? state
+                        : { callData: { ...state.callData, dtmfDigits } },
+                ),
+            appendDtmfDigit: (digit) =>
+                set((state) => ({
+                    callData: { ...state.callData, dtmfDigits: state.callData.dtmfDigits + digit },
+                })),
+            clearDtmfDigits: () =>
+                set((state) =>
+                    state.callData.dtmfDigits === ''
+                        ? state
+                        : { callData: { ...state.callData, dtmfDigits: '' } },
+                ),
+
+            setCallData: (data: Partial<WebRTCPhoneCallData>) =>
+                set((state) => ({
+                    callData: { ...state.callData, ...data },
+                })),
+
+            // Derived URLs
+            getDerivedUrlsFor: (apiDomain: string): WebRTCPhoneDerivedUrls => {
+                const { telproDomain, apiUrl, janusUrl, iceServers } = get().callData
+                return getDerivedUrls({
+                    janusDomain: telproDomain || '',
+                    apiDomain,
+                    janusUrl,
+                    apiUrl,
+                    iceServers,
+                })
+            },
+
+            // Restore persisted call state
+            restoreFromPersistedState: (): PersistedCallState | null => {
+                const storedState = loadCallState()
+                if (!storedState) return null
+
+                logDebug('Restoring persisted call state:', storedState)
+
+                set((state) => {
+                    const newReconnecting = true
+                    const newInitialized = !!storedState.telproDomain
+                    const newMuted = !!storedState.muted
+                    const newEndpointId = storedState.endpointId
+                    const newEndpointName = storedState.endpointName || ''
+                    const newAppName = storedState.appName || ''
+                    const newPhoneNumber = storedState.phoneNumber || ''
+                    const newCallId = storedState.callId || null
+                    const newWsToken = storedState.wsToken || null
+                    const newTelproDomain = storedState.telproDomain || null
+
+                    const connectionChanged =
+                        state.connection.reconnecting !== newReconnecting ||
+                        state.connection.initialized !== newInitialized ||
+                        state.connection.muted !== newMuted
+                    const callDataChanged =
+                        state.callData.endpointId !== newEndpointId ||
+                        state.callData.endpointName !== newEndpointName ||
+                        state.callData.appName !== newAppName ||
+                        state.callData.phoneNumber !== newPhoneNumber ||
+                        state.callData.currentCallId !== newCallId ||
+                        state.callData.currentWsToken !== newWsToken ||
+                        state.callData.telproDomain !== newTelproDomain
+
+                    if (!connectionChanged && !callDataChanged) return state
+
+                    return {
+                        ...(connectionChanged
+                            ? {
+                                  connection: {
+                                      ...state.connection,
+                                      reconnecting: newReconnecting,
+                                      initialized: newInitialized,
+                                      muted: newMuted,
+                                  },
+                              }
+                            : {}),
+                        ...(callDataChanged
+                            ? {
+                                  callData: {
+                                      ...state.callData,
+                                      endpointId: newEndpointId,
+                                      endpointName: newEndpointName,
+                                      appName: newAppName,
+                                      phoneNumber: newPhoneNumber,
+                                      currentCallId: newCallId,
+                                      currentWsToken: newWsToken,
+                                      telproDomain: newTelproDomain,
+                                  },
+                              }
+                            : {}),
+                    }
+                })
+
+                if (!storedState.telproDomain) {
+                    logDebug('No telproDomain in stored state, cannot reconnect')
+                    clearCallState()
+                    set((state) =>
+                        state.connection.reconnecting === false
+                            ? state
+                            : { connection: { ...state.connection, reconnecting: false } },
+                    )
+                    return null
+                }
+
+                return storedState
+            },
+
+            // Bulk resets
+            resetCallData: () => set({ callData: initialCallData }),
+            resetConnectionState: () => set({ connection: initialConnectionState }),
+            resetUIState: () => set({ ui: initialUIState }),
+            resetAll: () =>
+                set({
+                    ui: initialUIState,
+                    connection: initialConnectionState,
+                    callData: initialCallData,
+                    incomingCall: null,
+                    callStats: null,
+                    asyncActions: [],
+                }),
+            // WebRTC runtime config
+            webrtcConfig: {
+                apiDomain: 'localhost',
+                apiKey: '',
+                apiUrl: undefined,
+                janusUrl: undefined,
+                iceServers: undefined,
+            },
+            setWebRTCConfig: (config) => {
+                setlogger(config.logger)
+                set({ webrtcConfig: config })
+            },
+
+            // Inbound call
+            incomingCall: null,
+            setIncomingCall: (incomingCall) => set({ incomingCall }),
+
+            // Audio devices
+            devices: {
+                inputs: [],
+                outputs: [],
+                selectedInputId: loadDevicePreferences().inputDeviceId ?? null,
+                selectedOutputId: loadDevicePreferences().outputDeviceId ?? null,
+            },
+            setAudioDevices: (inputs, outputs) =>
+                set((state) => ({ devices: { ...state.devices, inputs, outputs } })),
+            setSelectedInputId: (selectedInputId) => {
+                const { selectedOutputId } = get().devices
+                saveDevicePreferences({
+                    inputDeviceId: selectedInputId ?? undefined,
+                    outputDeviceId: selectedOutputId ?? undefined,
+                })
+                set((state) => ({ devices: { ...state.devices, selectedInputId } }))
+            },
+            setSelectedOutputId: (selectedOutputId) => {
+                const { selectedInputId } = get().devices
+                saveDevicePreferences({
+                    inputDeviceId: selectedInputId ?? undefined,
+                    outputDeviceId: selectedOutputId ?? undefined,
+                })
+                set((state) => ({ devices: { ...state.devices, selectedOutputId } }))
+            },
+
+            // Call quality
+            callStats: null,
+            setCallStats: (callStats) => set({ callStats }),
+
+            // Async actions
+            asyncActions: [],
+            setAsyncActions: (asyncActions) => set({ asyncActions }),
+
+            // WebRTC phone call initiation
+            pendingCall: null,
+            initiateCall: (params) => set({ pendingCall: params }),
+            clearPendingCall: () => set({ pendingCall: null }),
+        })),
+    )
+
+export type WebRTCPhoneStoreApi = ReturnType<typeof createWebRTCPhoneStore>
+
+const defaultStore = createWebRTCPhoneStore(webrtcRefs)
+
+function useDefaultPhoneStore(): IWebRTCPhoneStore
+function useDefaultPhoneStore<T>(selector: (state: IWebRTCPhoneStore) => T): T
+function useDefaultPhoneStore<T>(selector?: (state: IWebRTCPhoneStore) => T) {
+    return useStore(defaultStore, selector ?? ((state: IWebRTCPhoneStore) => state as T))
+}
+
+/**
+ * Store of the default client, as a React hook (also `getState`, `setState`, `subscribe`).
+ * Used by the React hooks and `<WebRTCPhone>`.
+ */
+export const useWebRTCPhoneStore = Object.assign(useDefaultPhoneStore, defaultStore)
+
+/**
+ * Selector for the current call lifecycle phase.
+ *
+ * @example
+ * const callPhase = useWebRTCPhoneStore(selectCallPhase)
+ */
+export const selectCallPhase = (state: IWebRTCPhoneStore): CallPhase => state.connection.callPhase
+
+/**
+ * Selector for the latest call quality sample.
+ *
+ * @example
+ * const callStats = useWebRTCPhoneStore(selectCallStats)
+ */
+export const selectCallStats = (state: IWebRTCPhoneStore): CallStats | null => state.callStats
+
+/**
+ * Selector for the async actions the AI is waiting on.
+ *
+ * @example
+ * const asyncActions = useWebRTCPhoneStore(selectAsyncActions)
+ */
+export const selectAsyncActions = (state: IWebRTCPhoneStore): AsyncActionEntry[] =>
+    state.asyncActions
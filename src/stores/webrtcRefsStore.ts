@@ -1,29 +1,50 @@
 import type { PersistedCallState } from '../types'
+import type { AudioPipeline } from '../utils/audioProcessing'
+import type { JanusTransport } from '../utils/janusTransport'
 
 /**
- * Module-level singleton for mutable WebRTC refs.
+ * Mutable WebRTC refs (Janus session, peer connection, media, timers).
  *
- * Unlike React `useRef`, this is shared across ALL hooks that import it,
- * so setting `webrtcRefs.wsRef.current = ws` in one hook is immediately
- * visible to every other hook.
+ * Every TelphiClient owns one set. Unlike React `useRef`, a set is shared by everything
+ * working with that client, so setting `refs.transportRef.current = transport` in one place
+ * is immediately visible everywhere else.
  *
  * Each property keeps the `{ current: T }` shape so that DOM-bound refs
  * (`remoteAudioRef`, `localAudioRef`) can still be passed to JSX `ref` props.
  */
-export const webrtcRefs = {
-    wsRef: { current: null as WebSocket | null },
+export const createWebRTCRefs = () => ({
+    transportRef: { current: null as JanusTransport | null },
     pendingReconnectRef: { current: null as PersistedCallState | null },
     sessionIdRef: { current: null as number | null },
     handleIdRef: { current: null as number | null },
     pcRef: { current: null as RTCPeerConnection | null },
     localStreamRef: { current: null as MediaStream | null },
+    localAudioPipelineRef: { current: null as AudioPipeline | null },
+    remoteAudioPipelineRef: { current: null as AudioPipeline | null },
     remoteAudioRef: { current: null as HTMLAudioElement | null },
     localAudioRef: { current: null as HTMLAudioElement | null },
     keepAliveRef: { current: null as ReturnType<typeof setInterval> | null },
     transactionsRef: { current: new Map<string, (msg: Record<string, unknown>) => void>() },
+    // Requests awaiting a response, resent after the session is reclaimed on a new connection
+    inFlightRef: { current: new Map<string, Record<string, unknown>>() },
+    janusReconnectingRef: { current: false },
+    janusReconnectAttemptRef: { current: 0 },
+    janusReconnectTimerRef: { current: null as ReturnType<typeof setTimeout> | null },
     initializingRef: { current: false },
     initializedRef: { current: false },
     pendingCandidatesRef: { current: [] as Array<Record<string, unknown> | null> },
     remoteDescriptionSetRef: { current: false },
-    onHangupRef: { current: null as (() => void) | null },
-}
+    incomingJsepRef: { current: null as { type: string; sdp?: string } | null },
+    registerAttemptsRef: { current: 0 },
+    registerRetryRef: { current: null as ReturnType<typeof setTimeout> | null },
+    iceRestartAttemptRef: { current: 0 },
+    iceRestartTimerRef: { current: null as ReturnType<typeof setTimeout> | null },
+    iceRestartPendingRef: { current: false },
+})
+
+export type WebRTCRefs = ReturnType<typeof createWebRTCRefs>
+
+/**
+ * Refs of the default client, used by the React hooks and `<WebRTCPhone>`
+ */
+export const webrtcRefs = createWebRTCRefs()
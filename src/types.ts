@@ -1,12 +1,27 @@
+import type { ActionConfirmHandler, ActionPolicy } from './actions/actionPolicy'
+import type { ActionRegistry } from './actions/actionRegistry'
+import type { ActionPayload, ChatPayload } from './channelTypes'
+import type { ActionHandler, ChannelReconnectPolicy } from './channel/useCallChannel'
+import type { ChannelValidationMode } from './utils/channel'
+
 // Interface for persisted call state
 export interface PersistedCallState {
     callId: string
     endpointId: string
+    phoneNumber?: string // Dialed number (E.164)
     endpointName?: string // Endpoint display name
     appName?: string // App display name
     startedAt: number // timestamp to detect stale sessions
     wsToken?: string // WebSocket token for channel communication
+    wsTokenExpiresAt?: number // When wsToken expires (ms timestamp)
     telproDomain?: string // TelPro domain for reconnection
+    muted?: boolean // Microphone mute state, re-applied after reconnection
+}
+
+// Interface for the persisted microphone/speaker choice (undefined = system default)
+export interface AudioDevicePreferences {
+    inputDeviceId?: string
+    outputDeviceId?: string
 }
 
 // Interface for call token response
@@ -18,9 +33,76 @@ export interface CallTokenResponse {
     telproDomain?: string // TelPro domain for WebRTC (Janus/TURN/STUN)
 }
 
-export interface WebRTCPhoneProps {
+// Interface for ws token refresh response
+export interface WsTokenRefreshResponse {
+    wsToken: string
+    wsTokenExpiresIn: number // seconds
+}
+
+/**
+ * A call as reported by the public phone events
+ */
+export interface CallInfo {
+    direction: 'outbound' | 'inbound'
+    /** TelAPI call ID (outbound), or the SIP Call-ID of an inbound call */
+    callId: string | null
+    /** Dialed number or endpoint ID (outbound), or the caller's SIP URI (inbound) */
+    remote: string
+    /** Timestamp (ms) when the call started dialing or ringing */
+    startedAt: number
+}
+
+/**
+ * Payload of the `callEnded` event
+ */
+export interface CallEndedInfo extends CallInfo {
+    /** Why the call ended, e.g. `hangup`, `sip hangup`, `declineCall` or an error message */
+    reason: string
+    /** True when the call ended with the `failed` phase rather than a hangup */
+    failed: boolean
+    /** Talk time in ms (0 if the call was never answered) */
+    durationMs: number
+}
+
+/**
+ * Public phone events: `DelphiWebRTC.on(name, handler)` in the browser bundle, or the
+ * matching `on<Name>` props of `<WebRTCPhone>`
+ */
+export interface WebRTCPhoneEvents {
+    /** SIP registration succeeded; the phone can place and receive calls */
+    registered: { telproDomain: string | null }
+    callStarted: CallInfo
+    callAnswered: CallInfo
+    callEnded: CallEndedInfo
+    /** Chat message received over the call channel */
+    chatMessage: ChatPayload
+    /** Browser action requested by the AI over the call channel */
+    actionReceived: ActionPayload
+    error: { error: Error; context: string }
+}
+
+/** Typed callbacks for the phone events: `onCallEnded`, `onError`, ... */
+export type WebRTCPhoneEventCallbacks = {
+    [K in keyof WebRTCPhoneEvents as `on${Capitalize<K>}`]?: (payload: WebRTCPhoneEvents[K]) => void
+}
+
+export interface WebRTCPhoneProps extends WebRTCPhoneEventCallbacks {
     /** Optional callback for SPA navigation. If not provided, falls back to History API. */
     onNavigate?: (path: string) => void
+    /** Registry of the browser actions the AI can call. Default: `defaultActionRegistry` */
+    actionRegistry?: ActionRegistry
+    /** Handler for actions that are not registered. Default: fail them as unknown */
+    onUnknownAction?: ActionHandler
+    /**
+     * Send the action catalog to the AI when the call channel connects, and again when
+     * actions are registered or removed. Default: true
+     */
+    announceActions?: boolean
+    /**
+     * Ask the user to confirm an action (see `WebRTCConfig.actionPolicy.confirm`) with your
+     * own UI. Default: a confirmation dialog
+     */
+    onConfirmAction?: ActionConfirmHandler
 }
 
 export type IceServer = {
@@ -40,6 +122,87 @@ export interface Logger {
     error: (...args: unknown[]) => void
 }
 
+/**
+ * How `InitiateCallParams.phoneNumber` is carried to the SIP side
+ */
+export interface DialPlanConfig {
+    /**
+     * - 'header': request URI stays `sip:webrtc@<telproDomain>`, the number is sent in `header`
+     * - 'uri': the number is the user part of the request URI (`sip:+14155550100@<telproDomain>`)
+     * Default: 'header'
+     */
+    mode?: 'header' | 'uri'
+    /** SIP header used in 'header' mode. Default: 'X-Dialed-Number' */
+    header?: string
+    /** Header value template, `{number}` is replaced with the E.164 number. Default: '{number}' */
+    headerTemplate?: string
+    /** Country calling code (e.g. '1') prepended to numbers dialed without `+` or `00` */
+    defaultCountryCode?: string
+}
+
+/**
+ * Optional Web Audio processing. Omitted options are not applied.
+ */
+export interface AudioProcessingConfig {
+    /** Microphone gain (1 = unchanged) */
+    inputGain?: number
+    /** High-pass filter cutoff in Hz for the microphone (e.g. 100 to cut rumble) */
+    highPassHz?: number
+    /** Noise gate threshold in dBFS (e.g. -50); the microphone is silenced below it */
+    noiseGateDb?: number
+    /** Remote audio gain (1 = unchanged, 2 = +6 dB) */
+    remoteGain?: number
+}
+
+/**
+ * Microphone capture constraints and processing
+ */
+export interface AudioConfig {
+    /** Browser echo cancellation. Disable with hardware echo cancellation. Default: true */
+    echoCancellation?: boolean
+    /** Browser noise suppression. Default: true */
+    noiseSuppression?: boolean
+    /** Browser automatic gain control. Default: browser default */
+    autoGainControl?: boolean
+    /** Microphone channel count */
+    channelCount?: number
+    /** Microphone sample rate in Hz */
+    sampleRate?: number
+    processing?: AudioProcessingConfig
+}
+
+/**
+ * Authenticated SIP registration (e.g. a PBX extension).
+ * Without it the SDK registers as a Janus `guest`.
+ */
+export interface SipRegistrationConfig {
+    /** SIP user: a full URI (`sip:1001@pbx.example.com`) or a user part on the TelPro domain */
+    username: string
+    /** Authentication user, if different from the user part of `username` */
+    authuser?: string
+    /** Plain password */
+    secret?: string
+    /** HA1 hash (`md5(authuser:realm:password)`), used instead of `secret` when set */
+    ha1Secret?: string
+    /** Display name sent in the From header */
+    displayName?: string
+    /** Registration expiry in seconds. Janus refreshes the registration before it expires */
+    ttl?: number
+    /** Registrar/proxy URI. Default: `sip:<telproDomain>` */
+    proxy?: string
+}
+
+/**
+ * Janus API transport in use
+ */
+export type JanusTransportKind = 'websocket' | 'http'
+
+/**
+ * Janus API transport to use. `auto` tries the WebSocket first and falls back to
+ * HTTP long polling when it cannot be opened.
+ */
+export type JanusTransportMode = JanusTransportKind | 'auto'
+
 /**
  * WebRTC configuration passed to the SDK
  */
@@ -54,7 +217,37 @@ export interface WebRTCConfig {
     preferPcma?: boolean
     apiUrl?: string // Optional full API URL (overrides apiDomain if provided)
     janusUrl?: string // Optional full Janus URL (overrides apiDomain if provided)
+    /** Janus REST URL for the HTTP transport. Default: `https://<telproDomain>/janus` */
+    janusHttpUrl?: string
+    /**
+     * Janus API transport. Use `http` behind proxies that block WebSockets.
+     * Default: 'auto'
+     */
+    janusTransport?: JanusTransportMode
     iceServers?: Array<IceServer>
+    /** TelPro domain to register with before any outbound call (needed for inbound calls) */
+    telproDomain?: string
+    /**
+     * Connect and register with Janus on mount instead of when the dialog first opens.
+     * Required to receive inbound calls. Needs `telproDomain`.
+     * Default: false
+     */
+    autoConnect?: boolean
+    /** How the dialed phone number is passed to the SIP side */
+    dialPlan?: DialPlanConfig
+    /** Register with credentials instead of as a guest */
+    sipRegistration?: SipRegistrationConfig
+    /** Microphone constraints and optional Web Audio processing */
+    audio?: AudioConfig
+    /**
+     * Validation of messages received on the call channel. Invalid messages are dropped
+     * and reported through `onError`. Default: 'strict'
+     */
+    channelValidation?: ChannelValidationMode
+    /** Backoff and attempt limit for reconnecting the call channel */
+    channelReconnect?: ChannelReconnectPolicy
+    /** Which browser actions the AI may run, and which need the user's confirmation */
+    actionPolicy?: ActionPolicy
     /** Optional logger. Defaults to `console`. */
     logger?: Logger
 }
@@ -64,6 +257,7 @@ export interface WebRTCConfig {
  */
 export interface InitiateCallParams {
     endpointId: string
+    /** Number to dial. Normalized to E.164 (see `WebRTCConfig.dialPlan.defaultCountryCode`) */
     phoneNumber: string
     endpointName?: string
     appName?: string
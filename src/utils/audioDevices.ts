@@ -0,0 +1,111 @@
+import type { AudioConfig, AudioDevicePreferences } from '../types'
+
+import { AUDIO_DEVICES_STORAGE_KEY } from './constants'
+
+import { logDebug, logger } from './index'
+
+/**
+ * Serializable subset of MediaDeviceInfo
+ */
+export interface AudioDeviceInfo {
+    deviceId: string
+    label: string
+    groupId: string
+}
+
+// Save the selected devices to localStorage
+export const saveDevicePreferences = (preferences: AudioDevicePreferences) => {
+    try {
+        localStorage.setItem(AUDIO_DEVICES_STORAGE_KEY, JSON.stringify(preferences))
+        logDebug('Audio device preferences saved:', preferences)
+    } catch (e) {
+        logger.error('Failed to save audio device preferences:', e)
+    }
+}
+
+// Load the selected devices from localStorage (empty when nothing stored or no storage)
+export const loadDevicePreferences = (): AudioDevicePreferences => {
+    try {
+        const stored = localStorage.getItem(AUDIO_DEVICES_STORAGE_KEY)
+        return stored ? (JSON.parse(stored) as AudioDevicePreferences) : {}
+    } catch {
+        return {}
+    }
+}
+
+// getUserMedia audio constraints for the selected microphone (null = system default)
+export const getAudioConstraints = (
+    deviceId?: string | null,
+    audio: AudioConfig = {},
+): MediaTrackConstraints => {
+    const { echoCancellation = true, noiseSuppression = true } = audio
+    const { autoGainControl, channelCount, sampleRate } = audio
+    return {
+        echoCancellation,
+        noiseSuppression,
+        ...(autoGainControl !== undefined && { autoGainControl }),
+        ...(channelCount && { channelCount }),
+        ...(sampleRate && { sampleRate }),
+        ...(deviceId && { deviceId: { exact: deviceId } }),
+    }
+}
+
+/**
+ * Acquire the microphone, preferring the selected device.
+ * Falls back to the system default when the selected device is gone (e.g. unplugged).
+ */
+export const getMicrophoneStream = async (
+    deviceId?: string | null,
+    audio?: AudioConfig,
+): Promise<MediaStream> => {
+    try {
+        return await navigator.mediaDevices.getUserMedia({
+            audio: getAudioConstraints(deviceId, audio),
+            video: false,
+        })
+    } catch (e) {
+        const name = (e as Error | undefined)?.name
+        if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw e
+        logger.warn('Selected microphone unavailable, using default:', deviceId)
+        return navigator.mediaDevices.getUserMedia({
+            audio: getAudioConstraints(null, audio),
+            video: false,
+        })
+    }
+}
+
+// List audio inputs and outputs. Labels are empty until microphone permission is granted.
+export const enumerateAudioDevices = async (): Promise<{
+    inputs: AudioDeviceInfo[]
+    outputs: AudioDeviceInfo[]
+}> => {
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    const toInfo = ({ deviceId, label, groupId }: MediaDeviceInfo): AudioDeviceInfo => ({
+        deviceId,
+        label,
+        groupId,
+    })
+    return {
+        inputs: devices.filter((d) => d.kind === 'audioinput').map(toInfo),
+        outputs: devices.filter((d) => d.kind === 'audiooutput').map(toInfo),
+    }
+}
+
+/**
+ * Route an audio element to a speaker (empty string = system default).
+ * Returns false where setSinkId is not supported (e.g. Safari < 18.4).
+ */
+export const applySinkId = async (
+    audio: HTMLAudioElement | null,
+    deviceId: string,
+): Promise<boolean> => {
+    if (!audio || typeof audio.setSinkId !== 'function') return false
+    try {
+        await audio.setSinkId(deviceId)
+        logDebug('Audio output set to:', deviceId || 'default')
+        return true
+    } catch (e) {
+        logger.warn('Failed to set audio output device:', e)
+        return false
+    }
+}
@@ -0,0 +1,141 @@
+import type { AudioProcessingConfig } from '../types'
+
+import { logger } from './sdkLogger'
+
+// Noise gate: analysis interval and how long it stays open after the level drops
+const GATE_POLL_MS = 20
+const GATE_HOLD_MS = 200
+
+/**
+ * A Web Audio chain between a media stream and what is sent or played.
+ * Without processing `stream` is the input stream itself.
+ */
+export interface AudioPipeline {
+    /** Stream to send (outgoing) or play (remote) */
+    stream: MediaStream
+    /** Stream the pipeline reads from (the raw microphone for the outgoing side) */
+    inputStream: MediaStream
+    /** Tear down the chain. For the outgoing side this also stops the microphone */
+    close: () => void
+}
+
+const hasLocalProcessing = (
+    processing?: AudioProcessingConfig,
+): processing is AudioProcessingConfig =>
+    !!processing &&
+    ((processing.inputGain !== undefined && processing.inputGain !== 1) ||
+        !!processing.highPassHz ||
+        processing.noiseGateDb !== undefined)
+
+/**
+ * Build the outgoing chain: high-pass filter → gain → noise gate.
+ * Returns a pass-through pipeline when no processing is configured.
+ */
+export const createLocalAudioPipeline = (
+    input: MediaStream,
+    processing?: AudioProcessingConfig,
+): AudioPipeline => {
+    const stopInput = () => input.getTracks().forEach((track) => track.stop())
+    if (!hasLocalProcessing(processing)) {
+        return { stream: input, inputStream: input, close: stopInput }
+    }
+
+    const { inputGain = 1, highPassHz, noiseGateDb } = processing
+    try {
+        const context = new AudioContext()
+        let node: AudioNode = context.createMediaStreamSource(input)
+
+        if (highPassHz) {
+            const filter = context.createBiquadFilter()
+            filter.type = 'highpass'
+            filter.frequency.value = highPassHz
+            node = node.connect(filter)
+        }
+
+        if (inputGain !== 1) {
+            const gain = context.createGain()
+            gain.gain.value = inputGain
+            node = node.connect(gain)
+        }
+
+        let gateTimer: ReturnType<typeof setInterval> | null = null
+        if (noiseGateDb !== undefined) {
+            const analyser = context.createAnalyser()
+            analyser.fftSize = 512
+            node.connect(analyser)
+
+            const gate = context.createGain()
+            node = node.connect(gate)
+
+            // Close the gate while the input level stays below the threshold
+            const samples = new Float32Array(analyser.fftSize)
+            let lastOpenAt = 0
+            gateTimer = setInterval(() => {
+                analyser.getFloatTimeDomainData(samples)
+                let sum = 0
+                for (const sample of samples) sum += sample * sample
+                const levelDb = 20 * Math.log10(Math.sqrt(sum / samples.length) || 1e-8)
+                const now = Date.now()
+                if (levelDb >= noiseGateDb) {
+                    lastOpenAt = now
+                    gate.gain.setTargetAtTime(1, context.currentTime, 0.01)
+                } else if (now - lastOpenAt > GATE_HOLD_MS) {
+                    gate.gain.setTargetAtTime(0, context.currentTime, 0.05)
+                }
+            }, GATE_POLL_MS)
+        }
+
+        const destination = context.createMediaStreamDestination()
+        node.connect(destination)
+
+        return {
+            stream: destination.stream,
+            inputStream: input,
+            close: () => {
+                if (gateTimer) clearInterval(gateTimer)
+                destination.stream.getTracks().forEach((track) => track.stop())
+                stopInput()
+                context.close()
+            },
+        }
+    } catch (e) {
+        logger.warn('Failed to set up audio processing, sending raw microphone:', e)
+        return { stream: input, inputStream: input, close: stopInput }
+    }
+}
+
+/**
+ * Build the remote chain (volume boost above the 100% an <audio> element allows).
+ * Returns a pass-through pipeline when `gain` is unset or 1.
+ */
+export const createRemoteAudioPipeline = (input: MediaStream, gain?: number): AudioPipeline => {
+    if (gain === undefined || gain === 1) {
+        return { stream: input, inputStream: input, close: () => {} }
+    }
+
+    try {
+        const context = new AudioContext()
+        // Chrome only feeds a remote WebRTC stream into Web Audio while a media element plays it
+        const sink = new Audio()
+        sink.muted = true
+        sink.srcObject = input
+        sink.play().catch(() => {})
+
+        const gainNode = context.createGain()
+        gainNode.gain.value = gain
+        const destination = context.createMediaStreamDestination()
+        context.createMediaStreamSource(input).connect(gainNode).connect(destination)
+
+        return {
+            stream: destination.stream,
+            inputStream: input,
+            close: () => {
+                sink.srcObject = null
+                context.close()
+            },
+        }
+    } catch (e) {
+        logger.warn('Failed to set up remote audio processing, playing raw stream:', e)
+        return { stream: input, inputStream: input, close: () => {} }
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Exponential backoff settings
+ */
+export interface BackoffOptions {
+    /** Delay before the first retry in ms */
+    baseDelayMs: number
+    /** Upper bound for the delay in ms */
+    maxDelayMs: number
+    /** Growth factor of the delay per attempt (default: 2) */
+    multiplier?: number
+    /** Random share (0..1) taken off the delay so clients do not retry in lockstep */
+    jitter?: number
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): `baseDelayMs * multiplier^attempt`,
+ * capped at `maxDelayMs`, minus up to `jitter` of it at random.
+ */
+export const computeBackoffDelay = (
+    attempt: number,
+    { baseDelayMs, maxDelayMs, multiplier = 2, jitter = 0.5 }: BackoffOptions,
+): number => {
+    const delay = Math.min(baseDelayMs * multiplier ** attempt, maxDelayMs)
+    return Math.round(delay * (1 - Math.random() * jitter))
+}
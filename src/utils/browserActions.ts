@@ -0,0 +1,449 @@
+import { logDebug } from './index'
+
+// =============================================================================
+// Element lookup
+// =============================================================================
+
+/**
+ * How an action names an element: a CSS selector, the text of its `<label>`
+ * (or `aria-label` / placeholder), or its visible text (buttons and links)
+ */
+export interface ElementTarget {
+    selector?: string
+    label?: string
+    text?: string
+}
+
+const normalizeText = (text: string | null | undefined) =>
+    (text ?? '').replace(/\s+/g, ' ').trim().toLowerCase()
+
+// Exact matches win over partial ones
+const bestMatch = <T extends Element>(
+    candidates: Iterable<T>,
+    getText: (candidate: T) => string | null | undefined,
+    wanted: string,
+): T | null => {
+    const target = normalizeText(wanted)
+    let partial: T | null = null
+    for (const candidate of candidates) {
+        const text = normalizeText(getText(candidate))
+        if (!text) continue
+        if (text === target) return candidate
+        if (!partial && text.includes(target)) partial = candidate
+    }
+    return partial
+}
+
+// Form control for a label text: <label> (for= or wrapping), aria-label, then placeholder
+const findByLabel = (label: string, root: ParentNode): HTMLElement | null => {
+    const labelElement = bestMatch(
+        root.querySelectorAll('label'),
+        (element) => element.textContent,
+        label,
+    )
+    if (labelElement?.control) return labelElement.control
+
+    return bestMatch(
+        root.querySelectorAll<HTMLElement>('[aria-label], [placeholder]'),
+        (element) => element.getAttribute('aria-label') || element.getAttribute('placeholder'),
+        label,
+    )
+}
+
+// Clickable element by its visible text
+const CLICKABLE_SELECTOR =
+    'button, a, [role="button"], [role="link"], [role="tab"], [role="menuitem"], input[type="submit"], input[type="button"]'
+
+const findByText = (text: string, root: ParentNode): HTMLElement | null =>
+    bestMatch(
+        root.querySelectorAll<HTMLElement>(CLICKABLE_SELECTOR),
+        (element) =>
+            element instanceof HTMLInputElement
+                ? element.value
+                : element.textContent || element.getAttribute('aria-label'),
+        text,
+    )
+
+/**
+ * Find the element an action refers to. Returns null if nothing matches or the
+ * selector is invalid.
+ */
+export const findElement = (
+    { selector, label, text }: ElementTarget,
+    root: ParentNode = document,
+): HTMLElement | null => {
+    try {
+        if (selector) return root.querySelector<HTMLElement>(selector)
+    } catch {
+        logDebug('Invalid selector:', selector)
+        return null
+    }
+    if (label) return findByLabel(label, root)
+    if (text) return findByText(text, root)
+    return null
+}
+
+// Describe a target for error messages
+export const describeTarget = ({ selector, label, text }: ElementTarget) =>
+    selector ? `selector "${selector}"` : label ? `label "${label}"` : `text "${text ?? ''}"`
+
+/**
+ * Whether an element is rendered and not hidden with CSS
+ */
+export const isElementVisible = (element: Element): boolean => {
+    if (!element.isConnected) return false
+    if ('checkVisibility' in element && typeof element.checkVisibility === 'function') {
+        return element.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true })
+    }
+    const style = getComputedStyle(element)
+    return (
+        element.getClientRects().length > 0 &&
+        style.visibility !== 'hidden' &&
+        style.display !== 'none' &&
+        style.opacity !== '0'
+    )
+}
+
+const isDisabled = (element: HTMLElement) =>
+    element.matches(':disabled') || element.getAttribute('aria-disabled') === 'true'
+
+// =============================================================================
+// Form filling
+// =============================================================================
+
+export type FieldValue = string | number | boolean | string[]
+
+/**
+ * Field to fill. `fields` may also be an object keyed by name, id or label.
+ */
+export interface FormField extends ElementTarget {
+    /** `name` attribute of the field */
+    name?: string
+    value: FieldValue
+}
+
+export interface FillFormResult {
+    /** Fields that were filled, as given by the action */
+    filled: string[]
+    /** Fields that were not found or could not be set */
+    missing: string[]
+}
+
+// Set a value through the native setter so React-controlled inputs see the change
+const setNativeValue = (
+    element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement,
+    value: string,
+) => {
+    const prototype = Object.getPrototypeOf(element) as object
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set
+    if (setter) setter.call(element, value)
+    else element.value = value
+}
+
+const dispatchInputEvents = (element: HTMLElement) => {
+    element.dispatchEvent(new Event('input', { bubbles: true }))
+    element.dispatchEvent(new Event('change', { bubbles: true }))
+}
+
+/**
+ * Set the value of a form control and fire the events frameworks listen to.
+ * Returns false if the element cannot take a value.
+ */
+export const setFieldValue = (element: HTMLElement, value: FieldValue): boolean => {
+    if (element instanceof HTMLInputElement) {
+        if (element.type === 'checkbox' || element.type === 'radio') {
+            const checked = value === true || value === 'true' || value === element.value
+            // Clicking fires click/input/change like a real user; React listens to click here
+            if (element.checked !== checked) element.click()
+            return true
+        }
+        if (element.type === 'file') return false
+        setNativeValue(element, String(value))
+        dispatchInputEvents(element)
+        return true
+    }
+
+    if (element instanceof HTMLTextAreaElement) {
+        setNativeValue(element, String(value))
+        dispatchInputEvents(element)
+        return true
+    }
+
+    if (element instanceof HTMLSelectElement) {
+        const values = (Array.isArray(value) ? value : [String(value)]).map(normalizeText)
+        if (element.multiple) {
+            for (const option of element.options) {
+                option.selected =
+                    values.includes(normalizeText(option.value)) ||
+                    values.includes(normalizeText(option.text))
+            }
+        } else {
+            // Match the option value first, then its text
+            const option =
+                Array.from(element.options).find(
+                    (candidate) => normalizeText(candidate.value) === values[0],
+                ) ?? bestMatch(element.options, (candidate) => candidate.text, values[0])
+            if (!option) return false
+            setNativeValue(element, option.value)
+        }
+        dispatchInputEvents(element)
+        return true
+    }
+
+    if (element.isContentEditable) {
+        element.textContent = String(value)
+        element.dispatchEvent(new Event('input', { bubbles: true }))
+        return true
+    }
+
+    return false
+}
+
+// Radio groups are addressed by name; pick the option with the value
+const findField = (field: FormField, root: ParentNode): HTMLElement | null => {
+    if (field.name) {
+        const escaped = CSS.escape(field.name)
+        const radio = root.querySelector<HTMLInputElement>(
+            `input[type="radio"][name="${escaped}"][value="${CSS.escape(String(field.value))}"]`,
+        )
+        return radio ?? root.querySelector<HTMLElement>(`[name="${escaped}"]`)
+    }
+    return findElement(field, root)
+}
+
+// A key of the `fields` object: name, then id, then label text
+const fieldFromKey = (key: string, value: FieldValue, root: ParentNode): FormField => {
+    const escaped = CSS.escape(key)
+    if (root.querySelector(`[name="${escaped}"]`)) return { name: key, value }
+    if (root.querySelector(`#${escaped}`)) return { selector: `#${escaped}`, value }
+    return { label: key, value }
+}
+
+/**
+ * Fill form fields, given as a list of `FormField` or an object keyed by field name,
+ * id or label. `formSelector` limits the lookup to one form.
+ */
+export const fillForm = (
+    fields: FormField[] | Record<string, FieldValue>,
+    formSelector?: string,
+): FillFormResult => {
+    const root = (formSelector && document.querySelector(formSelector)) || document
+    const list = Array.isArray(fields)
+        ? fields
+        : Object.entries(fields).map(([key, value]) => fieldFromKey(key, value, root))
+
+    const result: FillFormResult = { filled: [], missing: [] }
+    for (const field of list) {
+        const name = field.name ?? describeTarget(field)
+        const element = findField(field, root)
+        if (element && !isDisabled(element) && setFieldValue(element, field.value)) {
+            result.filled.push(name)
+        } else {
+            result.missing.push(name)
+        }
+    }
+    logDebug('Form filled:', result)
+    return result
+}
+
+// =============================================================================
+// Clicking, scrolling and dialogs
+// =============================================================================
+
+/**
+ * Click an element after scrolling it into view. Throws if it is missing, hidden or
+ * disabled.
+ */
+export const clickElement = (target: ElementTarget): HTMLElement => {
+    const element = findElement(target)
+    if (!element) throw new Error(`No element found for ${describeTarget(target)}`)
+    if (!isElementVisible(element)) throw new Error(`Element ${describeTarget(target)} is hidden`)
+    if (isDisabled(element)) throw new Error(`Element ${describeTarget(target)} is disabled`)
+    element.scrollIntoView({ block: 'center', behavior: 'instant' })
+    element.click()
+    return element
+}
+
+/**
+ * Scroll an element into view. Throws if it is missing or hidden.
+ */
+export const scrollToElement = (
+    target: ElementTarget,
+    options: ScrollIntoViewOptions = { block: 'center', behavior: 'smooth' },
+): HTMLElement => {
+    const element = findElement(target)
+    if (!element) throw new Error(`No element found for ${describeTarget(target)}`)
+    if (!isElementVisible(element)) throw new Error(`Element ${describeTarget(target)} is hidden`)
+    element.scrollIntoView(options)
+    return element
+}
+
+/**
+ * Open a modal: `showModal()` for a `<dialog>`, otherwise click the element (a modal
+ * trigger button). Throws if nothing matches.
+ */
+export const openModal = (target: ElementTarget): 'dialog' | 'trigger' => {
+    const element = findElement(target)
+    if (element instanceof HTMLDialogElement) {
+        if (!element.open) element.showModal()
+        return 'dialog'
+    }
+    clickElement(target)
+    return 'trigger'
+}
+
+/**
+ * Close a modal: the matching `<dialog>`, or a close button, or else the topmost open
+ * `<dialog>`. Without one, Escape is sent, which most modal libraries close on.
+ */
+export const closeModal = (target: ElementTarget = {}): 'dialog' | 'button' | 'escape' => {
+    const element = target.selector || target.label || target.text ? findElement(target) : null
+    if (element instanceof HTMLDialogElement) {
+        element.close()
+        return 'dialog'
+    }
+    if (element) {
+        clickElement(target)
+        return 'button'
+    }
+
+    const openDialogs = document.querySelectorAll<HTMLDialogElement>('dialog[open]')
+    const topmost = openDialogs[openDialogs.length - 1]
+    if (topmost) {
+        topmost.close()
+        return 'dialog'
+    }
+    const active = (document.activeElement as HTMLElement | null) ?? document.body
+    active.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'Escape', code: 'Escape', bubbles: true }),
+    )
+    return 'escape'
+}
+
+// =============================================================================
+// Downloads
+// =============================================================================
+
+export interface DownloadParams {
+    /** File URL; same-origin (or CORS-enabled) URLs keep `filename` */
+    url?: string
+    /** File content, used when there is no URL */
+    data?: string
+    /** `data` is base64 (default: text) */
+    encoding?: 'text' | 'base64'
+    filename?: string
+    mimeType?: string
+}
+
+/**
+ * Download a file from a URL or from inline data. Returns the file name used.
+ */
+export const downloadFile = ({
+    url,
+    data,
+    encoding = 'text',
+    filename,
+    mimeType = 'application/octet-stream',
+}: DownloadParams): string => {
+    let href = url
+    let objectUrl: string | null = null
+    if (!href) {
+        if (data === undefined) throw new Error('No URL or data provided')
+        const content =
+            encoding === 'base64' ? Uint8Array.from(atob(data), (c) => c.charCodeAt(0)) : data
+        objectUrl = URL.createObjectURL(new Blob([content], { type: mimeType }))
+        href = objectUrl
+    }
+
+    const name = filename || (url ? url.split('/').pop()?.split('?')[0] : '') || 'download'
+    const link = document.createElement('a')
+    link.href = href
+    link.download = name
+    link.rel = 'noopener'
+    link.style.display = 'none'
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    // Give the browser time to start the download before releasing the blob
+    if (objectUrl) setTimeout(() => URL.revokeObjectURL(objectUrl), 10000)
+    return name
+}
+
+// =============================================================================
+// Audio playback
+// =============================================================================
+
+// Audio started by play_audio (one at a time)
+let currentAudio: HTMLAudioElement | null = null
+
+export interface PlayAudioParams {
+    url: string
+    /** 0..1 (default: 1) */
+    volume?: number
+    loop?: boolean
+}
+
+/**
+ * Play an audio file, stopping the one started before. Resolves once playback starts;
+ * rejects if the browser blocks it (e.g. autoplay policy).
+ */
+export const playAudio = async ({ url, volume = 1, loop = false }: PlayAudioParams) => {
+    stopAudio()
+    const audio = new Audio(url)
+    audio.volume = Math.min(Math.max(volume, 0), 1)
+    audio.loop = loop
+    audio.addEventListener('ended', () => {
+        if (currentAudio === audio) currentAudio = null
+    })
+    currentAudio = audio
+    try {
+        await audio.play()
+    } catch (error) {
+        if (currentAudio === audio) currentAudio = null
+        throw error
+    }
+    return { duration: Number.isFinite(audio.duration) ? audio.duration : null }
+}
+
+/**
+ * Stop the audio started with `playAudio`. Returns false if nothing was playing.
+ */
+export const stopAudio = (): boolean => {
+    if (!currentAudio) return false
+    currentAudio.pause()
+    currentAudio.removeAttribute('src')
+    currentAudio.load()
+    currentAudio = null
+    return true
+}
+
+// =============================================================================
+// Notifications
+// =============================================================================
+
+/**
+ * Show a system notification, asking for permission if it was not decided yet.
+ * Falls back to `alert()` when notifications are unavailable or denied.
+ */
+export const showNotification = async ({
+    title,
+    message,
+    icon,
+}: {
+    title?: string
+    message: string
+    icon?: string
+}): Promise<'notification' | 'alert'> => {
+    if (typeof Notification !== 'undefined') {
+        const permission =
+            Notification.permission === 'default'
+                ? await Notification.requestPermission()
+                : Notification.permission
+        if (permission === 'granted') {
+            new Notification(title || message, { body: title ? message : undefined, icon })
+            return 'notification'
+        }
+    }
+    alert(title ? `${title}\n\n${message}` : message)
+    return 'alert'
+}
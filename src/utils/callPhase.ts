@@ -0,0 +1,118 @@
+/**
+ * Call lifecycle phases, in the order a typical outbound call walks through them.
+ *
+ * - `idle`        — no Janus session
+ * - `connecting`  — Janus WebSocket / session / SIP handle being set up
+ * - `registering` — SIP register request sent
+ * - `ready`       — registered, no call in progress
+ * - `dialing`     — call request sent, waiting for the remote side
+ * - `ringing`     — remote side is ringing (outbound) or an incoming call is ringing (inbound)
+ * - `early_media` — remote SDP received before answer (progress)
+ * - `active`      — call answered, media flowing
+ * - `held`        — call on hold
+ * - `ending`      — local hangup in progress
+ * - `ended`       — call finished normally
+ * - `failed`      — call, registration or connection failed
+ */
+export type CallPhase =
+    | 'idle'
+    | 'connecting'
+    | 'registering'
+    | 'ready'
+    | 'dialing'
+    | 'ringing'
+    | 'early_media'
+    | 'active'
+    | 'held'
+    | 'ending'
+    | 'ended'
+    | 'failed'
+
+/**
+ * A single recorded phase change
+ */
+export interface CallPhaseTransition {
+    from: CallPhase
+    to: CallPhase
+    /** Timestamp (ms) when the transition happened */
+    at: number
+    /** Optional human-readable cause, e.g. a SIP event or error message */
+    reason?: string
+}
+
+// Allowed transitions. `idle` (teardown) and `failed` are reachable from every phase
+// and are added by `canTransitionCallPhase` rather than listed here.
+const CALL_PHASE_TRANSITIONS: Record<CallPhase, readonly CallPhase[]> = {
+    idle: ['connecting'],
+    connecting: ['registering', 'ready'],
+    registering: ['ready'],
+    ready: ['registering', 'dialing', 'ringing'],
+    dialing: ['ringing', 'early_media', 'active', 'ending', 'ended'],
+    ringing: ['early_media', 'active', 'ending', 'ended'],
+    early_media: ['active', 'ending', 'ended'],
+    active: ['held', 'ending', 'ended'],
+    held: ['active', 'ending', 'ended'],
+    ending: ['ended'],
+    ended: ['ready', 'registering', 'dialing', 'ringing'],
+    failed: ['connecting', 'registering', 'ready', 'dialing', 'ringing'],
+}
+
+// Maximum number of transitions kept in the store history
+export const MAX_CALL_PHASE_HISTORY = 50
+
+// Phases during which a call is set up but not yet answered
+const CALLING_PHASES: ReadonlySet<CallPhase> = new Set(['dialing', 'ringing', 'early_media'])
+
+// Phases during which the call is answered
+const IN_CALL_PHASES: ReadonlySet<CallPhase> = new Set(['active', 'held'])
+
+// Phases that require a registered SIP handle
+const REGISTERED_PHASES: ReadonlySet<CallPhase> = new Set([
+    'ready',
+    'dialing',
+    'ringing',
+    'early_media',
+    'active',
+    'held',
+    'ending',
+])
+
+/**
+ * Whether moving from `from` to `to` is a valid lifecycle transition.
+ * Staying in the same phase is always allowed (and treated as a no-op by the store).
+ */
+export const canTransitionCallPhase = (from: CallPhase, to: CallPhase): boolean =>
+    from === to || to === 'idle' || to === 'failed' || CALL_PHASE_TRANSITIONS[from].includes(to)
+
+/** Whether a call is being set up (dialing, ringing or early media) */
+export const isCallingPhase = (phase: CallPhase): boolean => CALLING_PHASES.has(phase)
+
+/** Whether a call is answered (active or held) */
+export const isInCallPhase = (phase: CallPhase): boolean => IN_CALL_PHASES.has(phase)
+
+/** Whether a call is in progress in any form, including a pending local hangup */
+export const isCallInProgressPhase = (phase: CallPhase): boolean =>
+    CALLING_PHASES.has(phase) || IN_CALL_PHASES.has(phase) || phase === 'ending'
+
+/**
+ * Derive the legacy boolean connection flags from a phase.
+ *
+ * The terminal phases `ended` and `failed` keep the previous `connected`/`registered`
+ * values, since a finished call does not tear down the SIP registration. A failure that
+ * does (lost session, failed registration) passes `registrationLost` to clear them.
+ */
+export const deriveConnectionFlags = (
+    phase: CallPhase,
+    previous: { connected: boolean; registered: boolean },
+    registrationLost = false,
+) => {
+    const keepsRegistration = !registrationLost && (phase === 'ended' || phase === 'failed')
+    const registered = keepsRegistration ? previous.registered : REGISTERED_PHASES.has(phase)
+    return {
+        connected: keepsRegistration ? previous.connected : registered,
+        registered,
+        calling: CALLING_PHASES.has(phase),
+        inCall: IN_CALL_PHASES.has(phase),
+        held: phase === 'held',
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ * Type of the local ICE candidate of the selected candidate pair
+ */
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay'
+
+/**
+ * Rating bucket for a MOS score
+ */
+export type CallQuality = 'excellent' | 'good' | 'fair' | 'poor'
+
+/**
+ * One audio quality sample taken from RTCPeerConnection.getStats()
+ */
+export interface CallStats {
+    /** Timestamp (ms) of the sample */
+    timestamp: number
+    /** Round-trip time in ms (RTCP, falling back to the ICE candidate pair) */
+    rttMs: number | null
+    /** Inbound audio jitter in ms */
+    jitterMs: number | null
+    /** Inbound packets lost since the sample before, in percent */
+    packetLossPct: number | null
+    /** Cumulative inbound packets lost */
+    packetsLost: number
+    /** Cumulative inbound packets received */
+    packetsReceived: number
+    /** Cumulative inbound payload bytes */
+    bytesReceived: number
+    /** Cumulative outbound payload bytes */
+    bytesSent: number
+    /** Inbound bitrate since the sample before, in kbit/s */
+    inboundKbps: number | null
+    /** Outbound bitrate since the sample before, in kbit/s */
+    outboundKbps: number | null
+    /** Negotiated audio codec, e.g. `PCMA/8000` */
+    codec: string | null
+    /** Remote audio level (0..1) */
+    remoteAudioLevel: number | null
+    /** Local microphone level (0..1) */
+    localAudioLevel: number | null
+    /** Local candidate type of the selected pair: `relay` means the call goes through TURN */
+    candidateType: CandidateType | null
+    /** Estimated mean opinion score (1..4.5) */
+    mos: number | null
+    quality: CallQuality | null
+}
+
+/**
+ * Estimate a MOS score from network metrics with a simplified ITU-T G.107 E-model.
+ *
+ * @param rttMs Round-trip time in ms
+ * @param jitterMs Jitter in ms
+ * @param packetLossPct Packet loss in percent
+ */
+export const computeMos = (rttMs: number, jitterMs: number, packetLossPct: number): number => {
+    // One-way delay plus jitter buffer and codec delay
+    const effectiveLatency = rttMs / 2 + jitterMs * 2 + 10
+    let r =
+        effectiveLatency < 160 ? 93.2 - effectiveLatency / 40 : 93.2 - (effectiveLatency - 120) / 10
+    r -= packetLossPct * 2.5
+    r = Math.min(Math.max(r, 0), 100)
+
+    const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r)
+    return Math.round(Math.min(Math.max(mos, 1), 4.5) * 100) / 100
+}
+
+/** Rating bucket for a MOS score */
+export const getCallQuality = (mos: number): CallQuality =>
+    mos >= 4 ? 'excellent' : mos >= 3.6 ? 'good' : mos >= 3.1 ? 'fair' : 'poor'
+
+// RTCStats entries are loosely typed across browsers
+type Stat = Record<string, unknown> & { id: string; type: string }
+
+const num = (value: unknown): number | null => (typeof value === 'number' ? value : null)
+
+/**
+ * Extract audio quality metrics from a getStats() report.
+ *
+ * Bitrates and interval packet loss are computed against `previous`, so the first
+ * sample of a call has them set to null.
+ */
+export const parseCallStats = (report: RTCStatsReport, previous?: CallStats | null): CallStats => {
+    const stats = new Map<string, Stat>()
+    report.forEach((stat) => stats.set(stat.id, stat as Stat))
+
+    let inbound: Stat | undefined
+    let outbound: Stat | undefined
+    let remoteInbound: Stat | undefined
+    let mediaSource: Stat | undefined
+    let selectedPair: Stat | undefined
+
+    stats.forEach((stat) => {
+        const isAudio = stat.kind === 'audio' || stat.mediaType === 'audio'
+        if (stat.type === 'inbound-rtp' && isAudio) inbound = stat
+        else if (stat.type === 'outbound-rtp' && isAudio) outbound = stat
+        else if (stat.type === 'remote-inbound-rtp' && isAudio) remoteInbound = stat
+        else if (stat.type === 'media-source' && isAudio) mediaSource = stat
+        else if (stat.type === 'transport' && typeof stat.selectedCandidatePairId === 'string') {
+            selectedPair = stats.get(stat.selectedCandidatePairId)
+        }
+    })
+    // Firefox has no transport stats; use the nominated pair instead
+    if (!selectedPair) {
+        stats.forEach((stat) => {
+            if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+                selectedPair = stat
+            }
+        })
+    }
+
+    const timestamp = Date.now()
+    const packetsLost = num(inbound?.packetsLost) ?? 0
+    const packetsReceived = num(inbound?.packetsReceived) ?? 0
+    const bytesReceived = num(inbound?.bytesReceived) ?? 0
+    const bytesSent = num(outbound?.bytesSent) ?? 0
+
+    const rttSeconds = num(remoteInbound?.roundTripTime) ?? num(selectedPair?.currentRoundTripTime)
+    const rttMs = rttSeconds !== null ? Math.round(rttSeconds * 1000) : null
+    const jitterSeconds = num(inbound?.jitter)
+    const jitterMs = jitterSeconds !== null ? Math.round(jitterSeconds * 1000) : null
+
+    let packetLossPct: number | null = null
+    let inboundKbps: number | null = null
+    let outboundKbps: number | null = null
+    if (previous) {
+        const elapsedMs = timestamp - previous.timestamp
+        const lost = Math.max(packetsLost - previous.packetsLost, 0)
+        const received = Math.max(packetsReceived - previous.packetsReceived, 0)
+        packetLossPct = lost + received > 0 ? (lost / (lost + received)) * 100 : 0
+        if (elapsedMs > 0) {
+            inboundKbps = Math.round(((bytesReceived - previous.bytesReceived) * 8) / elapsedMs)
+            outboundKbps = Math.round(((bytesSent - previous.bytesSent) * 8) / elapsedMs)
+        }
+    }
+
+    const codecStat = typeof inbound?.codecId === 'string' ? stats.get(inbound.codecId) : undefined
+    const codec = codecStat
+        ? `${String(codecStat.mimeType).replace(/^audio\//, '')}/${codecStat.clockRate}`
+        : null
+
+    const localCandidate =
+        typeof selectedPair?.localCandidateId === 'string'
+            ? stats.get(selectedPair.localCandidateId)
+            : undefined
+    const candidateType = (localCandidate?.candidateType as CandidateType | undefined) ?? null
+
+    const mos =
+        rttMs !== null && jitterMs !== null ? computeMos(rttMs, jitterMs, packetLossPct ?? 0) : null
+
+    return {
+        timestamp,
+        rttMs,
+        jitterMs,
+        packetLossPct: packetLossPct !== null ? Math.round(packetLossPct * 10) / 10 : null,
+        packetsLost,
+        packetsReceived,
+        bytesReceived,
+        bytesSent,
+        inboundKbps,
+        outboundKbps,
+        codec,
+        remoteAudioLevel: num(inbound?.audioLevel),
+        localAudioLevel: num(mediaSource?.audioLevel),
+        candidateType,
+        mos,
+        quality: mos !== null ? getCallQuality(mos) : null,
+    }
+}
@@ -1,15 +1,19 @@
-import type {
-    ChannelMessage,
-    MessageDirection,
-    MessageRole,
-    ControlCommand,
-    ControlPayload,
-    ResponseMode,
-    StatusState,
-    ActionPriority,
-    ChannelMessageType,
+import {
+    inboundChannelMessageSchema,
+    type ChannelMessage,
+    type MessageDirection,
+    type MessageRole,
+    type ControlCommand,
+    type ControlPayload,
+    type ResponseMode,
+    type StatusState,
+    type ActionPriority,
+    type ChannelMessageType,
+    type ChannelPayloads,
 } from '../channelTypes'
 
+import { logger } from './sdkLogger'
+
 // =============================================================================
 // Message Builder Helpers
 // =============================================================================
@@ -252,6 +256,24 @@ export function createDisableTextChatMessage(callId: string): ChannelMessage {
     return createControlMessage(callId, 'disable_text_chat')
 }
 
+/**
+ * Create a request message (browser -> ARI). The response carries the same correlationId
+ */
+export function createRequestMessage<K extends keyof ChannelPayloads>(
+    callId: string,
+    type: K,
+    payload: ChannelPayloads[K],
+    correlationId: string = createMessageId(),
+): ChannelMessage {
+    // Payload field: action_result -> actionResult
+    const field = type.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase())
+    return {
+        ...createBaseMessage(type, callId, 'to_ari'),
+        correlationId,
+        [field]: payload,
+    } as ChannelMessage
+}
+
 /**
  * Create a context-only update (no AI response expected)
  * Use for: async action completed, informational updates, background state changes
@@ -330,3 +352,119 @@ export function createPingMessage(callId: string): ChannelMessage {
 export function createPongMessage(callId: string): ChannelMessage {
     return createBaseMessage('pong', callId, 'to_browser') as ChannelMessage
 }
+
+// =============================================================================
+// Message Validation
+// =============================================================================
+
+/**
+ * How inbound channel messages are validated:
+ * - `strict`: the whole message must match the schema
+ * - `lenient`: envelope problems (e.g. a malformed `messageId` or `timestamp`) are only
+ *   logged; the payload for the message type must still be valid
+ */
+export type ChannelValidationMode = 'strict' | 'lenient'
+
+// Fields that lenient validation tolerates
+const ENVELOPE_FIELDS = new Set(['callId', 'messageId', 'timestamp', 'direction', 'correlationId'])
+
+/**
+ * Error for a channel message that is not valid JSON or does not match the protocol
+ */
+export class ChannelProtocolError extends Error {
+    /** Validation problems, e.g. `action.parameters: Invalid input` */
+    readonly issues: string[]
+    /** The received message (parsed JSON, or the raw text if it was not JSON) */
+    readonly data: unknown
+
+    constructor(message: string, issues: string[], data: unknown) {
+        super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message)
+        this.name = 'ChannelProtocolError'
+        this.issues = issues
+        this.data = data
+    }
+}
+
+/**
+ * Describe schema validation issues, e.g. `action.parameters: Invalid input`
+ */
+export function formatSchemaIssues(
+    issues: ReadonlyArray<{ path: PropertyKey[]; message: string }>,
+): string[] {
+    return issues.map((issue) =>
+        issue.path.length > 0
+            ? `${issue.path.map(String).join('.')}: ${issue.message}`
+            : issue.message,
+    )
+}
+
+/**
+ * Parse and validate an inbound channel message.
+ *
+ * @throws ChannelProtocolError if the message is not JSON or fails validation
+ */
+export function parseChannelMessage(
+    text: string,
+    mode: ChannelValidationMode = 'strict',
+): ChannelMessage {
+    let data: unknown
+    try {
+        data = JSON.parse(text)
+    } catch (error) {
+        throw new ChannelProtocolError(
+            'Channel message is not valid JSON',
+            [error instanceof Error ? error.message : String(error)],
+            text,
+        )
+    }
+
+    const result = inboundChannelMessageSchema.safeParse(data)
+    if (result.success) return result.data
+
+    const { issues } = result.error
+    const described = formatSchemaIssues(issues)
+    if (mode === 'lenient' && issues.every((issue) => ENVELOPE_FIELDS.has(String(issue.path[0])))) {
+        logger.warn('[CallChannel] Accepting message with invalid envelope:', described)
+        return data as ChannelMessage
+    }
+    throw new ChannelProtocolError('Invalid channel message', described, data)
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Why a channel request failed:
+ * - `not_connected`: there is no call to send it for
+ * - `timeout`: no response within the timeout
+ * - `rejected`: the response reported a failure (or was an `error` message)
+ * - `invalid_response`: the response data did not match the expected schema
+ * - `cancelled`: the call changed or the channel was unmounted before the response
+ */
+export type ChannelRequestErrorCode =
+    'not_connected' | 'timeout' | 'rejected' | 'invalid_response' | 'cancelled'
+
+/**
+ * Error for a channel request that did not get a successful response
+ */
+export class ChannelRequestError extends Error {
+    readonly code: ChannelRequestErrorCode
+    /** correlationId of the request */
+    readonly correlationId: string | null
+    /** Error details from the response, if any */
+    readonly details?: unknown
+
+    constructor(
+        code: ChannelRequestErrorCode,
+        message: string,
+        correlationId: string | null = null,
+        details?: unknown,
+    ) {
+        super(message)
+        this.name = 'ChannelRequestError'
+        this.code = code
+        this.correlationId = correlationId
+        this.details = details
+    }
+}
@@ -16,3 +16,32 @@ export const DTMF_FREQUENCIES: Record<string, [number, number]> = {
 
 // Storage key for persisting call state across reloads
 export const CALL_STATE_STORAGE_KEY = 'webrtc-phone-call-state'
+
+// Re-registration after a transient SIP registration failure
+export const MAX_REGISTER_RETRIES = 3
+export const REGISTER_RETRY_DELAY_MS = 5000 // multiplied by the attempt number
+
+// Storage key for the user's microphone/speaker choice (kept across sessions)
+export const AUDIO_DEVICES_STORAGE_KEY = 'webrtc-phone-audio-devices'
+
+// Janus transport: connect timeout (WebSocket open / HTTP `info`) and the HTTP long poll.
+// The poll gives up after JANUS_HTTP_POLL_MAX_FAILURES consecutive failures.
+export const JANUS_CONNECT_TIMEOUT_MS = 10000
+export const JANUS_HTTP_POLL_MAX_EVENTS = 10
+export const JANUS_HTTP_POLL_MAX_FAILURES = 3
+export const JANUS_HTTP_POLL_BACKOFF = { baseDelayMs: 1000, maxDelayMs: 8000, jitter: 0.5 }
+
+// Janus signalling reconnect. The Janus session times out after ~60s without
+// keepalives, so attempts stop well before that and the session is recreated instead.
+export const JANUS_RECONNECT_MAX_ATTEMPTS = 8
+export const JANUS_RECONNECT_BACKOFF = { baseDelayMs: 500, maxDelayMs: 10000, jitter: 0.5 }
+
+// ICE restart during a call. The backoff is also the time an attempt gets to reconnect.
+export const ICE_RESTART_MAX_ATTEMPTS = 4
+export const ICE_RESTART_BACKOFF = { baseDelayMs: 5000, maxDelayMs: 20000, jitter: 0.2 }
+// How long `disconnected` may last before restarting, and the debounce for network events
+export const ICE_DISCONNECTED_GRACE_MS = 3000
+export const NETWORK_CHANGE_RESTART_DELAY_MS = 1000
+
+// Call channel token is refreshed this long before it expires (at the latest halfway)
+export const WS_TOKEN_REFRESH_MARGIN_MS = 60000
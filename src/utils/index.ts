@@ -1,11 +1,73 @@
 import { logger } from './sdkLogger'
 
 export { playDtmfTone } from './playDtmfTone'
+export { startRingtone } from './playRingtone'
 export { getDerivedUrls } from './getDerivedUrl'
 export { animationStyles } from './animation'
 export { setAudioCodecPreferences } from './setAudioCodecPreferences'
-export { CALL_STATE_STORAGE_KEY } from './constants'
+export { setStreamMuted } from './setStreamMuted'
+export { normalizePhoneNumber, buildDialTarget, DEFAULT_DIALED_NUMBER_HEADER } from './phoneNumber'
+export {
+    buildRegisterRequest,
+    SipRegistrationError,
+    type SipRegistrationErrorKind,
+} from './sipRegistration'
+export { getSdpDirection, isRemoteHoldDirection, type SdpDirection } from './sdpDirection'
+export {
+    computeMos,
+    getCallQuality,
+    parseCallStats,
+    type CallQuality,
+    type CallStats,
+    type CandidateType,
+} from './callStats'
+export {
+    applySinkId,
+    enumerateAudioDevices,
+    getAudioConstraints,
+    getMicrophoneStream,
+    loadDevicePreferences,
+    saveDevicePreferences,
+    type AudioDeviceInfo,
+} from './audioDevices'
+export {
+    createLocalAudioPipeline,
+    createRemoteAudioPipeline,
+    type AudioPipeline,
+} from './audioProcessing'
+export { computeBackoffDelay, type BackoffOptions } from './backoff'
+export {
+    createHttpTransport,
+    createWebSocketTransport,
+    openJanusTransport,
+    type JanusTransport,
+    type JanusTransportOptions,
+} from './janusTransport'
+export {
+    AUDIO_DEVICES_STORAGE_KEY,
+    CALL_STATE_STORAGE_KEY,
+    ICE_DISCONNECTED_GRACE_MS,
+    ICE_RESTART_BACKOFF,
+    ICE_RESTART_MAX_ATTEMPTS,
+    JANUS_CONNECT_TIMEOUT_MS,
+    JANUS_RECONNECT_BACKOFF,
+    JANUS_RECONNECT_MAX_ATTEMPTS,
+    MAX_REGISTER_RETRIES,
+    NETWORK_CHANGE_RESTART_DELAY_MS,
+    REGISTER_RETRY_DELAY_MS,
+    WS_TOKEN_REFRESH_MARGIN_MS,
+} from './constants'
 export { saveCallState, loadCallState, clearCallState } from './callState'
+export {
+    canTransitionCallPhase,
+    deriveConnectionFlags,
+    isCallingPhase,
+    isInCallPhase,
+    isCallInProgressPhase,
+    MAX_CALL_PHASE_HISTORY,
+    type CallPhase,
+    type CallPhaseTransition,
+} from './callPhase'
 
 export { logger }
 
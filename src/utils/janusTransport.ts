@@ -0,0 +1,247 @@
+import type { JanusTransportKind, JanusTransportMode } from '../types'
+
+import { computeBackoffDelay } from './backoff'
+import {
+    JANUS_CONNECT_TIMEOUT_MS,
+    JANUS_HTTP_POLL_BACKOFF,
+    JANUS_HTTP_POLL_MAX_EVENTS,
+    JANUS_HTTP_POLL_MAX_FAILURES,
+} from './constants'
+import { logger } from './sdkLogger'
+
+type JanusMessage = Record<string, unknown>
+
+/**
+ * Connection to the Janus API. Requests go out with `send`; responses and async events
+ * (including those of the HTTP long poll) come back through `onmessage`.
+ */
+export interface JanusTransport {
+    readonly kind: JanusTransportKind
+    /** Whether messages can be sent */
+    readonly connected: boolean
+    /** Open the connection. Rejects on failure or after JANUS_CONNECT_TIMEOUT_MS */
+    connect: () => Promise<void>
+    send: (message: JanusMessage) => void
+    /** Close the connection. Does not call `onclose` */
+    close: () => void
+    onmessage: ((message: JanusMessage) => void) | null
+    /** The established connection was lost */
+    onclose: (() => void) | null
+}
+
+/**
+ * Janus endpoints and which transport to use
+ */
+export interface JanusTransportOptions {
+    mode: JanusTransportMode
+    /** Janus WebSocket URL (`wss://...`) */
+    websocketUrl: string
+    /** Janus REST base URL (`https://.../janus`) */
+    httpUrl: string
+}
+
+/**
+ * WebSocket transport (`janus-protocol` subprotocol)
+ */
+export const createWebSocketTransport = (url: string): JanusTransport => {
+    let ws: WebSocket | null = null
+
+    const transport: JanusTransport = {
+        kind: 'websocket',
+        get connected() {
+            return ws?.readyState === WebSocket.OPEN
+        },
+        connect: () =>
+            new Promise<void>((resolve, reject) => {
+                const socket = new WebSocket(url, 'janus-protocol')
+                ws = socket
+                const timeout = setTimeout(() => {
+                    socket.onclose = null
+                    socket.close()
+                    reject(new Error('Connection timeout'))
+                }, JANUS_CONNECT_TIMEOUT_MS)
+
+                socket.onopen = () => {
+                    clearTimeout(timeout)
+                    // Only a socket that was open can be lost
+                    socket.onclose = () => {
+                        if (ws === socket) transport.onclose?.()
+                    }
+                    resolve()
+                }
+                socket.onerror = (err) => {
+                    logger.error('WebSocket error:', err)
+                    clearTimeout(timeout)
+                    reject(new Error('Connection failed'))
+                }
+                socket.onmessage = (e) => {
+                    try {
+                        transport.onmessage?.(JSON.parse(e.data))
+                    } catch (err) {
+                        logger.error('Parse error:', err)
+                    }
+                }
+            }),
+        send: (message) => ws?.send(JSON.stringify(message)),
+        close: () => {
+            const socket = ws
+            ws = null
+            if (socket) {
+                socket.onclose = null
+                socket.close()
+            }
+        },
+        onmessage: null,
+        onclose: null,
+    }
+    return transport
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<unknown> => {
+    const response = await fetch(url, init)
+    if (!response.ok) throw new Error(`Janus HTTP ${response.status}`)
+    return response.json()
+}
+
+/**
+ * REST transport. Requests are POSTed to `<url>/<session>/<handle>`; events are received
+ * with a long poll (`GET <url>/<session>`) that runs while a session exists.
+ */
+export const createHttpTransport = (url: string): JanusTransport => {
+    let open = false
+    let poll: AbortController | null = null
+
+    // The session expired or the server is unreachable
+    const lose = () => {
+        if (!open) return
+        open = false
+        poll?.abort()
+        poll = null
+        transport.onclose?.()
+    }
+
+    const longPoll = async (sessionId: unknown, controller: AbortController) => {
+        let failures = 0
+        while (!controller.signal.aborted) {
+            try {
+                const body = await fetchJson(
+                    `${url}/${sessionId}?maxev=${JANUS_HTTP_POLL_MAX_EVENTS}&rid=${Date.now()}`,
+                    { signal: controller.signal },
+                )
+                failures = 0
+                const events = (Array.isArray(body) ? body : [body]) as JanusMessage[]
+                for (const event of events) {
+                    // Sent when no event arrived within ~30s
+                    if (event.janus === 'keepalive') continue
+                    // e.g. 458 No such session
+                    if (event.janus === 'error' && !event.transaction) {
+                        logger.warn('Janus long poll error:', event.error)
+                        lose()
+                        return
+                    }
+                    transport.onmessage?.(event)
+                }
+            } catch (e) {
+                if (controller.signal.aborted) return
+                failures += 1
+                if (failures > JANUS_HTTP_POLL_MAX_FAILURES) {
+                    logger.warn('Janus long poll failed:', e)
+                    lose()
+                    return
+                }
+                await sleep(computeBackoffDelay(failures - 1, JANUS_HTTP_POLL_BACKOFF))
+            }
+        }
+    }
+
+    const startPolling = (sessionId: unknown) => {
+        poll?.abort()
+        const controller = new AbortController()
+        poll = controller
+        longPoll(sessionId, controller)
+    }
+
+    const transport: JanusTransport = {
+        kind: 'http',
+        get connected() {
+            return open
+        },
+        connect: async () => {
+            // `info` needs no session: a cheap reachability check
+            const controller = new AbortController()
+            const timeout = setTimeout(() => controller.abort(), JANUS_CONNECT_TIMEOUT_MS)
+            try {
+                await fetchJson(`${url}/info`, { signal: controller.signal })
+            } catch (e) {
+                throw new Error(
+                    controller.signal.aborted ? 'Connection timeout' : 'Connection failed',
+                    { cause: e },
+                )
+            } finally {
+                clearTimeout(timeout)
+            }
+            open = true
+        },
+        send: (message) => {
+            // Session and handle are addressed by the path
+            const { session_id: sessionId, handle_id: handleId, ...body } = message
+            const path = [url, sessionId, handleId].filter((part) => part != null).join('/')
+            fetchJson(path, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            })
+                .then((value) => {
+                    const response = value as JanusMessage
+                    if (response.janus === 'success') {
+                        if (message.janus === 'create') {
+                            startPolling((response.data as JanusMessage | undefined)?.id)
+                        } else if (message.janus === 'claim') {
+                            startPolling(sessionId)
+                        } else if (message.janus === 'destroy') {
+                            poll?.abort()
+                            poll = null
+                        }
+                    }
+                    transport.onmessage?.(response)
+                })
+                // The request times out in useSendMessage
+                .catch((e) => logger.warn('Janus HTTP request failed:', e))
+        },
+        close: () => {
+            open = false
+            poll?.abort()
+            poll = null
+        },
+        onmessage: null,
+        onclose: null,
+    }
+    return transport
+}
+
+/**
+ * Open a connected transport. In `auto` mode the WebSocket is tried first and HTTP is
+ * used if it cannot be opened (e.g. a proxy that blocks WebSocket upgrades).
+ */
+export const openJanusTransport = async ({
+    mode,
+    websocketUrl,
+    httpUrl,
+}: JanusTransportOptions): Promise<JanusTransport> => {
+    if (mode !== 'http') {
+        const transport = createWebSocketTransport(websocketUrl)
+        try {
+            await transport.connect()
+            return transport
+        } catch (e) {
+            transport.close()
+            if (mode === 'websocket') throw e
+            logger.warn('Janus WebSocket unavailable, falling back to HTTP:', e)
+        }
+    }
+    const transport = createHttpTransport(httpUrl)
+    await transport.connect()
+    return transport
+}
@@ -0,0 +1,55 @@
+import type { DialPlanConfig } from '../types'
+
+// E.164: leading +, country code 1-9, at most 15 digits in total
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/
+
+export const DEFAULT_DIALED_NUMBER_HEADER = 'X-Dialed-Number'
+
+/**
+ * Normalize a user-entered phone number to E.164.
+ *
+ * Strips common formatting (spaces, dashes, dots, parentheses), converts a leading
+ * international `00` prefix to `+` and prepends `defaultCountryCode` to national numbers.
+ * Returns null when the result is not a valid E.164 number.
+ *
+ * @example
+ * normalizePhoneNumber('(415) 555-0100', '1') // '+14155550100'
+ * normalizePhoneNumber('0044 20 7946 0958')   // '+442079460958'
+ */
+export const normalizePhoneNumber = (input: string, defaultCountryCode?: string): string | null => {
+    let digits = input.trim().replace(/[\s\-.()/]/g, '')
+    if (digits.startsWith('00')) digits = `+${digits.slice(2)}`
+    if (!digits.startsWith('+')) {
+        if (!defaultCountryCode) return null
+        digits = `+${defaultCountryCode.replace(/^\+/, '')}${digits.replace(/^0+/, '')}`
+    }
+    return E164_PATTERN.test(digits) ? digits : null
+}
+
+/**
+ * Build the SIP request URI and extra headers for dialing `phoneNumber` (E.164) through
+ * the given TelPro domain, according to the configured dial plan.
+ * Without a number, the legacy `sip:webrtc@` URI is used.
+ */
+export const buildDialTarget = (
+    telproDomain: string,
+    phoneNumber: string | undefined,
+    dialPlan: DialPlanConfig = {},
+): { uri: string; headers: Record<string, string> } => {
+    const {
+        mode = 'header',
+        header = DEFAULT_DIALED_NUMBER_HEADER,
+        headerTemplate = '{number}',
+    } = dialPlan
+
+    if (!phoneNumber) {
+        return { uri: `sip:webrtc@${telproDomain}`, headers: {} }
+    }
+    if (mode === 'uri') {
+        return { uri: `sip:${phoneNumber}@${telproDomain}`, headers: {} }
+    }
+    return {
+        uri: `sip:webrtc@${telproDomain}`,
+        headers: { [header]: headerTemplate.replace(/\{number\}/g, phoneNumber) },
+    }
+}
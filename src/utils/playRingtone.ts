@@ -0,0 +1,58 @@
+import { logger } from './sdkLogger'
+
+// Ring tone: 440 Hz + 480 Hz, 2s on / 4s off (North American ringing cadence)
+const RING_FREQUENCIES: [number, number] = [440, 480]
+const RING_ON_MS = 2000
+const RING_PERIOD_MS = 6000
+
+// Audio context for the ringtone (lazy initialized)
+let audioContext: AudioContext | null = null
+
+// Play a single ring burst
+const playRing = (context: AudioContext) => {
+    const duration = RING_ON_MS / 1000
+    const gainNode = context.createGain()
+    gainNode.connect(context.destination)
+
+    const now = context.currentTime
+    // Short fade in/out to avoid clicks
+    gainNode.gain.setValueAtTime(0.001, now)
+    gainNode.gain.exponentialRampToValueAtTime(0.1, now + 0.05)
+    gainNode.gain.setValueAtTime(0.1, now + duration - 0.05)
+    gainNode.gain.exponentialRampToValueAtTime(0.001, now + duration)
+
+    RING_FREQUENCIES.forEach((frequency) => {
+        const osc = context.createOscillator()
+        osc.type = 'sine'
+        osc.frequency.value = frequency
+        osc.connect(gainNode)
+        osc.start(now)
+        osc.stop(now + duration)
+    })
+}
+
+/**
+ * Start playing the incoming call ringtone via Web Audio API.
+ * Rings immediately and then repeats until the returned stop function is called.
+ */
+export const startRingtone = (): (() => void) => {
+    try {
+        // Lazy initialize audio context (must be done after user interaction)
+        if (!audioContext) {
+            audioContext = new AudioContext()
+        }
+        const context = audioContext
+
+        // Resume if suspended (browser autoplay policy)
+        if (context.state === 'suspended') {
+            context.resume()
+        }
+
+        playRing(context)
+        const interval = setInterval(() => playRing(context), RING_PERIOD_MS)
+        return () => clearInterval(interval)
+    } catch (e) {
+        logger.warn('Failed to play ringtone:', e)
+        return () => {}
+    }
+}
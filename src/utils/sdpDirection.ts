@@ -0,0 +1,20 @@
+export type SdpDirection = 'sendrecv' | 'sendonly' | 'recvonly' | 'inactive'
+
+const DIRECTIONS: readonly SdpDirection[] = ['sendrecv', 'sendonly', 'recvonly', 'inactive']
+
+// Read the direction attribute of the first m-section of the given kind.
+// Falls back to the session-level attribute, then to 'sendrecv' (the SDP default).
+export const getSdpDirection = (sdp: string, kind: string = 'audio'): SdpDirection => {
+    const sections = sdp.split(/\r?\n(?=m=)/)
+    const session = sections[0].startsWith('m=') ? '' : sections[0]
+    const media = sections.find((section) => section.startsWith(`m=${kind} `)) || ''
+
+    const findDirection = (block: string) =>
+        DIRECTIONS.find((direction) => new RegExp(`^a=${direction}\\s*$`, 'm').test(block))
+
+    return findDirection(media) || findDirection(session) || 'sendrecv'
+}
+
+// A remote offer that stops sending to us means the remote side put the call on hold
+export const isRemoteHoldDirection = (direction: SdpDirection) =>
+    direction === 'sendonly' || direction === 'inactive'
@@ -0,0 +1,13 @@
+import { logDebug } from './index'
+
+// Enable/disable every local audio track on a stream.
+// Disabled tracks keep the sender alive but transmit silence, so no renegotiation is needed.
+export const setStreamMuted = (stream: MediaStream | null, muted: boolean) => {
+    if (!stream) return
+
+    const tracks = stream.getAudioTracks()
+    tracks.forEach((track) => {
+        track.enabled = !muted
+    })
+    logDebug(`Microphone ${muted ? 'muted' : 'unmuted'} (${tracks.length} track(s))`)
+}
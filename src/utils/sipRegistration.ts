@@ -0,0 +1,88 @@
+import type { SipRegistrationConfig } from '../types'
+
+/**
+ * Category of a failed SIP registration, derived from the SIP status code
+ *
+ * - `auth`        — 401/407, credentials rejected
+ * - `forbidden`   — 403
+ * - `not_found`   — 404, unknown user/domain
+ * - `timeout`     — 408, or no response from the registrar
+ * - `unavailable` — 5xx, registrar or server temporarily unavailable
+ * - `unknown`     — anything else
+ */
+export type SipRegistrationErrorKind =
+    'auth' | 'forbidden' | 'not_found' | 'timeout' | 'unavailable' | 'unknown'
+
+// Failures worth retrying without user action
+const RETRIABLE_KINDS: ReadonlySet<SipRegistrationErrorKind> = new Set(['timeout', 'unavailable'])
+
+const kindFromCode = (code?: number): SipRegistrationErrorKind => {
+    if (code === 401 || code === 407) return 'auth'
+    if (code === 403) return 'forbidden'
+    if (code === 404) return 'not_found'
+    if (code === 408) return 'timeout'
+    if (code !== undefined && code >= 500 && code < 600) return 'unavailable'
+    return 'unknown'
+}
+
+/**
+ * Error for a Janus SIP plugin `registration_failed` event
+ */
+export class SipRegistrationError extends Error {
+    /** SIP status code of the failed REGISTER, if reported */
+    readonly code?: number
+    /** SIP reason phrase as reported by Janus */
+    readonly reason: string
+    readonly kind: SipRegistrationErrorKind
+
+    constructor(reason: string, code?: number) {
+        super(code ? `${code} ${reason}` : reason)
+        this.name = 'SipRegistrationError'
+        this.code = code
+        this.reason = reason
+        this.kind = kindFromCode(code)
+    }
+
+    /** Whether registering again may succeed without changing the credentials */
+    get retriable(): boolean {
+        return RETRIABLE_KINDS.has(this.kind)
+    }
+}
+
+// Expand a bare user part (e.g. '1001') into a SIP URI on the given domain
+const toSipUri = (user: string, domain: string) =>
+    /^sips?:/.test(user) ? user : user.includes('@') ? `sip:${user}` : `sip:${user}@${domain}`
+
+/**
+ * Build the Janus SIP plugin `register` request body.
+ *
+ * Without `sipRegistration` this is the legacy guest registration
+ * (`sip:<page hostname>@<telproDomain>`, no REGISTER sent to the PBX).
+ */
+export const buildRegisterRequest = (
+    telproDomain: string,
+    sipRegistration?: SipRegistrationConfig,
+): Record<string, unknown> => {
+    if (!sipRegistration) {
+        return {
+            request: 'register',
+            type: 'guest',
+            username: `sip:${window.location.hostname}@${telproDomain}`,
+            proxy: `sip:${telproDomain}`,
+        }
+    }
+
+    const { username, authuser, secret, ha1Secret, displayName, ttl, proxy } = sipRegistration
+    const body: Record<string, unknown> = {
+        request: 'register',
+        username: toSipUri(username, telproDomain),
+        proxy: proxy || `sip:${telproDomain}`,
+    }
+    if (authuser) body.authuser = authuser
+    // HA1 takes precedence so the plain secret never leaves the page when both are set
+    if (ha1Secret) body.ha1_secret = ha1Secret
+    else if (secret) body.secret = secret
+    if (displayName) body.display_name = displayName
+    if (ttl) body.register_ttl = ttl
+    return body
+}